@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect } from 'react';
-import { MountManager } from '../models/MountManager';
-import { FileSystemNode, FileSystemNodeType, FileNode, DirectoryNode } from '../models/FileSystem';
+import { FileTreeNode, MountManager } from '../models/MountManager';
+import { formatMountOptions } from '../models/MountOptions';
+import { FileSystemNodeType, FileSystemUsage, getNodeSize } from '../models/FileSystem';
+import { SnapshotUsage, getSnapshotUsage } from '../models/FileSystemSnapshot';
 import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
 
 interface DiskUsageProps {
@@ -12,16 +15,47 @@ interface DiskUsageProps {
 interface FileStats {
   totalFiles: number;
   totalDirectories: number;
-  totalSize: number; // This would represent bytes in a real system
+  totalSize: number; // Bytes of file content
   fileTypes: Record<string, number>;
+  mountUsage: MountUsage[];
 }
 
+interface MountUsage {
+  path: string;
+  fsType: string;
+  options: string;
+  usage: FileSystemUsage;
+  snapshots: SnapshotUsage;
+}
+
+// Format a byte count with a binary unit, e.g. "1.5 KiB"
+const formatBytes = (bytes: number): string => {
+  const units = ['bytes', 'KiB', 'MiB', 'GiB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} bytes` : `${value.toFixed(1)} ${units[unit]}`;
+};
+
+// Share of a filesystem's capacity in use, from 0 to 100 for the gauge. A filesystem
+// with no capacity is shown as full, and usage over the capacity is capped.
+const usedPercent = ({ used, size }: FileSystemUsage): number => {
+  if (size === null || size <= 0) {
+    return 100;
+  }
+  return Math.min(100, Math.max(0, (used / size) * 100));
+};
+
 const DiskUsage: React.FC<DiskUsageProps> = ({ mountManager }) => {
   const [stats, setStats] = useState<FileStats>({
     totalFiles: 0,
     totalDirectories: 0,
     totalSize: 0,
-    fileTypes: {}
+    fileTypes: {},
+    mountUsage: []
   });
 
   useEffect(() => {
@@ -32,14 +66,21 @@ const DiskUsage: React.FC<DiskUsageProps> = ({ mountManager }) => {
           totalFiles: 0,
           totalDirectories: 0,
           totalSize: 0,
-          fileTypes: {}
+          fileTypes: {},
+          mountUsage: mountManager.getMounts().map(mount => ({
+            path: mount.path,
+            fsType: mount.filesystem.fsType,
+            options: formatMountOptions(mount.options),
+            usage: mount.filesystem.getUsage(),
+            snapshots: getSnapshotUsage(mount.filesystem)
+          }))
         };
 
-        // Recursive function to process all nodes
-        const processNode = (node: FileSystemNode) => {
+        // Recursive function to process all nodes, across every mounted filesystem
+        const processNode = ({ node, children }: FileTreeNode) => {
           if (node.type === FileSystemNodeType.FILE) {
             newStats.totalFiles++;
-            newStats.totalSize += (node as FileNode).content?.length || 0;
+            newStats.totalSize += getNodeSize(node);
             
             // Extract file extension
             const parts = node.name.split('.');
@@ -47,11 +88,7 @@ const DiskUsage: React.FC<DiskUsageProps> = ({ mountManager }) => {
             newStats.fileTypes[ext] = (newStats.fileTypes[ext] || 0) + 1;
           } else if (node.type === FileSystemNodeType.DIRECTORY) {
             newStats.totalDirectories++;
-            
-            const dirNode = node as DirectoryNode;
-            if (dirNode.children) {
-              Array.from(dirNode.children.values()).forEach(processNode);
-            }
+            children.forEach(processNode);
           }
         };
 
@@ -137,14 +174,36 @@ const DiskUsage: React.FC<DiskUsageProps> = ({ mountManager }) => {
       <Card className="bg-terminal-background border-slate-700 overflow-hidden">
         <CardContent className="p-4 text-sm">
           <h3 className="text-terminal-prompt mb-2">Mounted Filesystems</h3>
-          <div className="space-y-1">
-            {mountManager.getMounts().map((mount, index) => (
-              <div key={index} className="flex justify-between">
-                <span className="text-terminal-directory">{mount.path}</span>
-                <span className="text-slate-400">{mount.filesystem.fsType}</span>
+          <div className="space-y-2">
+            {stats.mountUsage.map((mount, index) => (
+              <div key={index} className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-terminal-directory">{mount.path}</span>
+                  <span className="text-slate-400">{mount.fsType}</span>
+                </div>
+                <div className="text-xs text-slate-500">{mount.options}</div>
+                {mount.usage.size !== null ? (
+                  <>
+                    <Progress value={usedPercent(mount.usage)} className="h-2" />
+                    <div className="flex justify-between text-xs text-slate-400">
+                      <span>{formatBytes(mount.usage.used)} used</span>
+                      <span>{formatBytes(mount.usage.available ?? 0)} free of {formatBytes(mount.usage.size)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-xs text-slate-400">{formatBytes(mount.usage.used)} used</div>
+                )}
+                {mount.snapshots.count > 0 && (
+                  <div className="flex justify-between text-xs text-slate-400">
+                    <span>{mount.snapshots.count} snapshot{mount.snapshots.count === 1 ? '' : 's'}</span>
+                    <span>
+                      {formatBytes(mount.snapshots.shared)} shared, {formatBytes(mount.snapshots.exclusive)} exclusive
+                    </span>
+                  </div>
+                )}
               </div>
             ))}
-            {mountManager.getMounts().length === 0 && (
+            {stats.mountUsage.length === 0 && (
               <div className="text-slate-400 italic">
                 No mounted filesystems
               </div>
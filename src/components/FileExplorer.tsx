@@ -1,25 +1,30 @@
 
-import React, { useState, useEffect } from 'react';
-import { MountManager } from '../models/MountManager';
-import { FileSystemNode, FileSystemNodeType, DirectoryNode, FileNode } from '../models/FileSystem';
+import React, { useState, useEffect, useRef } from 'react';
+import { FileTreeNode, MountManager } from '../models/MountManager';
+import { FileSystemNodeType } from '../models/FileSystem';
+import { PersistenceManager } from '../models/PersistenceManager';
+import { createSnapshot, formatSnapshot, importSnapshot, parseSnapshot } from '../models/SnapshotExport';
+import { downloadFile } from '../utils/download';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { ChevronRight, ChevronDown, Folder, File } from 'lucide-react';
+import { ChevronRight, ChevronDown, Folder, File, Download, Upload, FileUp } from 'lucide-react';
+import { toast } from 'sonner';
 
 interface FileExplorerProps {
   mountManager: MountManager;
+  persistence?: PersistenceManager; // Saves what an upload imports, if given
 }
 
 interface TreeNodeProps {
-  node: FileSystemNode;
-  path: string;
+  entry: FileTreeNode;
   level: number;
   mountManager: MountManager;
 }
 
-const TreeNode: React.FC<TreeNodeProps> = ({ node, path, level, mountManager }) => {
+const TreeNode: React.FC<TreeNodeProps> = ({ entry, level, mountManager }) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const fullPath = `${path}${node.name}${node.type === FileSystemNodeType.DIRECTORY ? '/' : ''}`;
-  const isDirectory = node.type === FileSystemNodeType.DIRECTORY;
+  const isDirectory = entry.node.type === FileSystemNodeType.DIRECTORY;
 
   // Automatically expand first level
   useEffect(() => {
@@ -55,23 +60,27 @@ const TreeNode: React.FC<TreeNodeProps> = ({ node, path, level, mountManager })
           </div>
         )}
         <span className="truncate">
-          {node.name || (level === 0 ? 'root' : '')}
+          {entry.name || (level === 0 ? 'root' : '')}
         </span>
+        {/* Mount badge: the type of the filesystem mounted here */}
+        {entry.isMountPoint && (
+          <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px] font-normal text-terminal-prompt border-slate-600">
+            {entry.mount.filesystem.fsType}
+          </Badge>
+        )}
       </div>
 
       {isDirectory && isExpanded && (
         <div>
-          {(node as DirectoryNode).children && Array.from((node as DirectoryNode).children.values()).map((child, index) => (
+          {entry.children.map(child => (
             <TreeNode 
-              key={`${fullPath}${child.name}-${index}`}
-              node={child} 
-              path={fullPath} 
+              key={child.path}
+              entry={child} 
               level={level + 1}
               mountManager={mountManager}
             />
           ))}
-          {/* Fix the type error by correctly checking if directory is empty */}
-          {isDirectory && ((node as DirectoryNode).children.size === 0) && (
+          {entry.children.length === 0 && (
             <div 
               className="text-slate-500 italic py-1 text-xs"
               style={{ paddingLeft: `${(level + 1) * 16 + 20}px` }}
@@ -85,8 +94,10 @@ const TreeNode: React.FC<TreeNodeProps> = ({ node, path, level, mountManager })
   );
 };
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ mountManager }) => {
-  const [fileSystem, setFileSystem] = useState<FileSystemNode | null>(null);
+const FileExplorer: React.FC<FileExplorerProps> = ({ mountManager, persistence }) => {
+  const [fileSystem, setFileSystem] = useState<FileTreeNode | null>(null);
+  const uploadRef = useRef<HTMLInputElement>(null);
+  const filesRef = useRef<HTMLInputElement>(null);
 
   // Refresh file explorer every second
   useEffect(() => {
@@ -100,15 +111,112 @@ const FileExplorer: React.FC<FileExplorerProps> = ({ mountManager }) => {
     return () => clearInterval(interval);
   }, [mountManager]);
 
+  // Download the whole tree as a JSON snapshot
+  const handleDownload = () => {
+    try {
+      const text = formatSnapshot(createSnapshot(mountManager, '/'));
+      downloadFile({ name: 'root.json', data: text, type: 'application/json' });
+    } catch (error) {
+      toast.error('Could not export the file system', {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  // Recreate an uploaded snapshot where it was exported from
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Let the same file be chosen again
+    if (!file) return;
+
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      const result = importSnapshot(mountManager, snapshot, snapshot.path);
+      persistence?.scheduleSave();
+      setFileSystem(mountManager.getFileSystemTree());
+
+      if (result.errors.length > 0) {
+        toast.warning(`Imported ${file.name} into ${snapshot.path} with ${result.errors.length} errors`, {
+          description: result.errors.join('\n')
+        });
+      } else {
+        toast.success(`Imported ${file.name} into ${snapshot.path}`);
+      }
+    } catch (error) {
+      toast.error(`Could not import ${file.name}`, {
+        description: error instanceof Error ? error.message : String(error)
+      });
+    }
+  };
+
+  // Copy files from the computer into the terminal's working directory, e.g. a
+  // .tar.gz to unpack with tar -xzf
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    const directory = mountManager.getCurrentDirectory();
+    const errors: string[] = [];
+    for (const file of files) {
+      const data = new Uint8Array(await file.arrayBuffer());
+      try {
+        mountManager.writeFile(`${directory === '/' ? '' : directory}/${file.name}`, data);
+      } catch (error) {
+        errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    persistence?.scheduleSave();
+    setFileSystem(mountManager.getFileSystemTree());
+
+    if (errors.length > 0) {
+      toast.error(`Could not upload ${errors.length} of ${files.length} files to ${directory}`, {
+        description: errors.join('\n')
+      });
+    } else {
+      toast.success(`Uploaded ${files.length === 1 ? files[0].name : `${files.length} files`} to ${directory}`);
+    }
+  };
+
   if (!fileSystem) {
     return <div className="text-slate-400">Loading file system...</div>;
   }
 
+  const toolbarButton = "h-7 px-2 bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700/50 hover:text-slate-100";
+
   return (
     <div className="bg-[#1E1E2E] rounded-md border border-slate-700 p-2 h-full overflow-y-auto">
+      {/* Snapshots: download everything as JSON, or upload a snapshot to import; Upload copies in plain files */}
+      <div className="flex gap-2 mb-2">
+        <Button variant="outline" size="sm" className={toolbarButton} onClick={handleDownload}>
+          <Download size={14} className="mr-1" />
+          Export
+        </Button>
+        <Button variant="outline" size="sm" className={toolbarButton} onClick={() => uploadRef.current?.click()}>
+          <Upload size={14} className="mr-1" />
+          Import
+        </Button>
+        <input
+          ref={uploadRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleUpload}
+        />
+        <Button variant="outline" size="sm" className={toolbarButton} onClick={() => filesRef.current?.click()}>
+          <FileUp size={14} className="mr-1" />
+          Upload
+        </Button>
+        <input
+          ref={filesRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFileUpload}
+        />
+      </div>
       <TreeNode
-        node={fileSystem}
-        path="/"
+        entry={fileSystem}
         level={0}
         mountManager={mountManager}
       />
@@ -1,8 +1,11 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { MountManager } from '../models/MountManager';
-import { CommandParser, CommandResult } from '../utils/CommandParser';
+import { CommandParser, CommandPrompt, CommandResult } from '../utils/CommandParser';
 import { FileSystemNodeType } from '../models/FileSystem';
+import { formatFstabError } from '../models/Fstab';
+import { PersistenceManager } from '../models/PersistenceManager';
+import { downloadFile } from '../utils/download';
 import { cn } from '@/lib/utils';
 
 type TerminalLineType = 'input' | 'output' | 'error' | 'success' | 'command';
@@ -21,19 +24,21 @@ interface DirectoryItem {
 interface MountItem {
   mountPoint: string;
   fsType: string;
+  options: string;
 }
 
 interface TerminalProps {
   mountManager?: MountManager;
+  persistence?: PersistenceManager; // Saves changes made by commands, if given
 }
 
-const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager }) => {
+const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager, persistence }) => {
   const [lines, setLines] = useState<TerminalLine[]>([]);
   const [currentInput, setCurrentInput] = useState('');
   const [mountManager] = useState(() => propsMountManager || new MountManager());
-  const [commandParser] = useState(() => new CommandParser(mountManager));
-  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  const [commandParser] = useState(() => new CommandParser(mountManager, persistence ?? null));
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const [pendingPrompt, setPendingPrompt] = useState<CommandPrompt | null>(null);
   const terminalRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const lineIdCounter = useRef(0);
@@ -50,6 +55,17 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
     ));
   }, []);
 
+  // Report /etc/fstab lines that couldn't be mounted at startup
+  useEffect(() => {
+    mountManager.getFstabErrors().forEach(error => addLine('error', `mount: ${formatFstabError(error)}`));
+  }, [mountManager]);
+
+  // Show output written to /dev/tty, one line per write
+  useEffect(() => {
+    mountManager.setTerminalWriter(text => addLine('output', text.replace(/\n$/, '')));
+    return () => mountManager.setTerminalWriter(null);
+  }, [mountManager]);
+
   // Scroll to bottom when lines change
   useEffect(() => {
     scrollToBottom();
@@ -87,12 +103,36 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
     setLines([]);
   };
 
+  // Shell prompt like "alice@vfs:~/docs$" ("#" for root)
+  const getPromptLabel = () => {
+    const user = mountManager.getCurrentUser();
+    const host = mountManager.getUserManager().getHostname();
+    const home = mountManager.getHomeDirectory();
+    const cwd = mountManager.getCurrentDirectory();
+    const dir = home !== '/' && (cwd === home || cwd.startsWith(home + '/'))
+      ? '~' + cwd.substring(home.length)
+      : cwd;
+    const symbol = mountManager.getCredentials().uid === 0 ? '#' : '$';
+    return `${user?.name ?? mountManager.getCredentials().uid}@${host}:${dir}${symbol}`;
+  };
+
   const handlePromptKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
+    if (pendingPrompt && e.key === 'c' && e.ctrlKey) {
+      // Abandon the command waiting for input
+      e.preventDefault();
+      addLine('error', `${pendingPrompt.message} ^C`);
+      setPendingPrompt(null);
+      setCurrentInput('');
+    } else if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
-      if (currentInput.trim()) {
+      if (pendingPrompt) {
+        handlePromptResponse(currentInput);
+      } else if (currentInput.trim()) {
         handleCommand(currentInput);
       }
+    } else if (pendingPrompt) {
+      // History and completion don't apply while answering a prompt
+      return;
     } else if (e.key === 'ArrowUp') {
       e.preventDefault();
       navigateHistory(-1);
@@ -106,6 +146,7 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
   };
 
   const navigateHistory = (direction: number) => {
+    const commandHistory = mountManager.getCommandHistory();
     if (commandHistory.length === 0) return;
     
     const newIndex = historyIndex + direction;
@@ -124,18 +165,34 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
     }
   };
 
+  const handlePromptResponse = (input: string) => {
+    const prompt = pendingPrompt;
+    setPendingPrompt(null);
+    setCurrentInput('');
+
+    // Echo the answer unless it is a secret such as a password
+    addLine('command', (
+      <div className="flex">
+        <span className="text-terminal-prompt mr-2">{prompt.message}</span>
+        {!prompt.secret && <span className="text-terminal-command">{input}</span>}
+      </div>
+    ));
+
+    showResult('', prompt.respond(input));
+  };
+
   const handleCommand = (cmd: string) => {
-    // Add command to history
-    setCommandHistory(prev => [...prev, cmd]);
+    // Add command to history (also readable as /proc/self/history)
+    mountManager.addToHistory(cmd);
     setHistoryIndex(-1);
     
     // Add command to terminal
     addLine('command', (
       <div className="flex">
         <span className="text-terminal-prompt mr-2">
-          {mountManager.getCurrentDirectory()}
+          {getPromptLabel()}
         </span>
-        <span className="text-terminal-command">$ {cmd}</span>
+        <span className="text-terminal-command">{cmd}</span>
       </div>
     ));
     
@@ -143,13 +200,48 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
     setCurrentInput('');
     
     // Parse and execute command
-    const result = commandParser.parseCommand(cmd);
-    
+    showResult(cmd, commandParser.parseCommand(cmd));
+  };
+
+  const showResult = (cmd: string, result: CommandResult) => {
+    // Whatever the command changed gets saved once things quieten down
+    persistence?.scheduleSave();
+
+    // The command finishes later: show what it has said so far, then its result
+    if (result.pending) {
+      if (result.message) {
+        addLine('output', result.message);
+      }
+      result.pending
+        .then(finished => showResult(cmd, finished))
+        .catch(error => addLine('error', `Error executing command: ${error instanceof Error ? error.message : String(error)}`));
+      return;
+    }
+
+    // The command needs more input: show its message and wait for the answer
+    if (result.prompt) {
+      if (result.message) {
+        addLine('output', result.message);
+      }
+      setPendingPrompt(result.prompt);
+      return;
+    }
+
     if (result.message === 'CLEAR_SCREEN') {
       clearScreen();
       return;
     }
     
+    // Hand files such as exported snapshots to the browser, then report as usual
+    if (result.download) {
+      downloadFile(result.download);
+    }
+
+    if (result.message === 'RELOAD') {
+      window.location.reload();
+      return;
+    }
+
     if (result.message === 'EXIT') {
       addLine('success', 'Goodbye!');
       return;
@@ -187,6 +279,7 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
               <tr className="border-b border-terminal-text/30">
                 <th className="text-left py-1">Mount Point</th>
                 <th className="text-left py-1">Filesystem Type</th>
+                <th className="text-left py-1">Options</th>
               </tr>
             </thead>
             <tbody>
@@ -194,6 +287,7 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
                 <tr key={i} className="border-b border-terminal-text/10">
                   <td className="py-1 text-terminal-directory">{mount.mountPoint}</td>
                   <td className="py-1">{mount.fsType}</td>
+                  <td className="py-1">{mount.options}</td>
                 </tr>
               ))}
             </tbody>
@@ -203,6 +297,11 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
       return;
     }
     
+    // Commands like su succeed silently
+    if (!result.message) {
+      return;
+    }
+
     // Handle regular command result
     if (result.success) {
       addLine('success', result.message);
@@ -234,11 +333,11 @@ const Terminal: React.FC<TerminalProps> = ({ mountManager: propsMountManager })
       
       <div className="terminal-input-line sticky bottom-0 bg-terminal-background">
         <span className="terminal-prompt text-terminal-prompt">
-          {mountManager.getCurrentDirectory()}$
+          {pendingPrompt ? pendingPrompt.message : getPromptLabel()}
         </span>
         <input
           ref={inputRef}
-          type="text"
+          type={pendingPrompt?.secret ? 'password' : 'text'}
           className="terminal-input"
           value={currentInput}
           onChange={e => setCurrentInput(e.target.value)}
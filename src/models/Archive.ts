@@ -0,0 +1,244 @@
+import { FileInode, FileNode, FileSystemNodeType, SymlinkNode } from './FileSystem';
+import { FileSystemError } from './FileSystemError';
+import { MountManager } from './MountManager';
+
+// Kinds of entry an archive can hold
+export type ArchiveEntryType = 'file' | 'directory' | 'symlink' | 'hardlink';
+
+// One member of an archive (tar, zip, ...), independent of the format
+export interface ArchiveEntry {
+  name: string;     // Relative path inside the archive, without a trailing slash
+  type: ArchiveEntryType;
+  mode: number;     // Permission bits
+  uid: number;
+  gid: number;
+  uname?: string;   // Owner and group names, where the format stores them
+  gname?: string;
+  mtime: Date;
+  data: Uint8Array; // File content; empty for everything else
+  linkname: string; // Symbolic link target, or the earlier entry a hard link shares content with
+}
+
+// Name an entry is listed under: directories end with a slash, as in tar -t
+export const formatEntryName = (entry: ArchiveEntry) =>
+  entry.type === 'directory' ? `${entry.name}/` : entry.name;
+
+// Error raised for archives that can't be read or written (bad header, truncated, ...)
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+// Entries gathered from the tree, with the problems that left some out
+export interface CollectResult {
+  entries: ArchiveEntry[];
+  warnings: string[];
+  strippedRoot: boolean; // Some path was absolute and lost its leading '/'
+}
+
+// Entries written into the tree, with the ones that failed
+export interface ExtractResult {
+  extracted: ArchiveEntry[];
+  errors: string[];
+}
+
+// Join a directory and a relative path
+const joinPath = (directory: string, relativePath: string) =>
+  relativePath === '' ? directory : `${directory === '/' ? '' : directory}/${relativePath}`;
+
+// Describe a failed step the way tar does, e.g. "a.txt: Cannot open: Permission denied"
+function describeFailure(name: string, action: string, error: unknown): string {
+  if (!(error instanceof FileSystemError)) {
+    throw error;
+  }
+  return `${name}: ${action}: ${error.description}`;
+}
+
+// Gather archive entries for paths and everything below them, read with the current
+// credentials. Relative paths start from directory (tar -C). Names are the paths as
+// given, without a leading '/'. The archive being written (exclude) is skipped, as are
+// devices; unreadable entries become warnings.
+export function collectArchiveEntries(
+  mountManager: MountManager,
+  paths: string[],
+  directory: string = '.',
+  exclude: string | null = null
+): CollectResult {
+  const entries: ArchiveEntry[] = [];
+  const warnings: string[] = [];
+  const linkNames = new Map<FileInode, string>(); // First entry name for each inode
+  const userManager = mountManager.getUserManager();
+  const excluded = exclude !== null && mountManager.exists(exclude) ? mountManager.realpath(exclude) : null;
+
+  const collect = (path: string, name: string) => {
+    let node;
+    try {
+      node = mountManager.lstat(path);
+    } catch (error) {
+      warnings.push(describeFailure(name || path, 'Cannot stat', error));
+      return;
+    }
+
+    const entry: ArchiveEntry = {
+      name,
+      type: 'file',
+      mode: node.mode & 0o7777,
+      uid: node.uid,
+      gid: node.gid,
+      uname: userManager.findUser(node.uid)?.name,
+      gname: userManager.findGroup(node.gid)?.name,
+      mtime: node.mtime,
+      data: new Uint8Array(0),
+      linkname: ''
+    };
+
+    switch (node.type) {
+      case FileSystemNodeType.FILE: {
+        if (excluded !== null && mountManager.realpath(path) === excluded) {
+          warnings.push(`${name}: file is the archive; not dumped`);
+          return;
+        }
+        const { inode } = node as FileNode;
+        const linked = linkNames.get(inode);
+        if (linked !== undefined) {
+          entries.push({ ...entry, type: 'hardlink', linkname: linked });
+          return;
+        }
+        try {
+          entry.data = mountManager.readFileBytes(path);
+        } catch (error) {
+          warnings.push(describeFailure(name, 'Cannot open', error));
+          return;
+        }
+        linkNames.set(inode, name);
+        entries.push(entry);
+        return;
+      }
+      case FileSystemNodeType.SYMLINK:
+        entries.push({ ...entry, type: 'symlink', linkname: (node as SymlinkNode).target });
+        return;
+      case FileSystemNodeType.DIRECTORY: {
+        // An archive of / has no entry for / itself, only for what's in it
+        if (name !== '') {
+          entries.push({ ...entry, type: 'directory' });
+        }
+        let children;
+        try {
+          children = mountManager.listDirectory(path);
+        } catch (error) {
+          warnings.push(describeFailure(name || path, 'Cannot open', error));
+          return;
+        }
+        children.forEach(child => collect(joinPath(path, child.name), name === '' ? child.name : `${name}/${child.name}`));
+        return;
+      }
+      default:
+        warnings.push(`${name}: devices are not archived`);
+    }
+  };
+
+  const base = mountManager.normalizePath(directory);
+  let strippedRoot = false;
+  for (const path of paths) {
+    const name = path.replace(/\/+$/, '');
+    if (name.startsWith('/')) {
+      strippedRoot = true;
+    }
+    collect(mountManager.normalizePath(path.startsWith('/') ? path : `${base}/${path}`), name.replace(/^\/+/, ''));
+  }
+  return { entries, warnings, strippedRoot };
+}
+
+// Write archive entries below a directory with the current credentials, creating
+// missing parent directories. Names with '..' are refused so nothing lands outside
+// the directory. Ownership is only kept when running as root; directory times are set
+// last, since extracting into a directory changes them.
+export function extractArchiveEntries(
+  mountManager: MountManager,
+  entries: ArchiveEntry[],
+  directory: string
+): ExtractResult {
+  const extracted: ArchiveEntry[] = [];
+  const errors: string[] = [];
+  const isRoot = mountManager.getCredentials().uid === 0;
+  const base = mountManager.normalizePath(directory);
+  const directories: { path: string, entry: ArchiveEntry }[] = [];
+
+  // Set ownership, mode and modification time, as far as allowed
+  const applyAttributes = (path: string, entry: ArchiveEntry) => {
+    if (isRoot) {
+      mountManager.chown(path, entry.uid, entry.gid);
+    }
+    mountManager.chmod(path, entry.mode);
+    mountManager.utimes(path, null, entry.mtime);
+  };
+
+  // Remove a file or link in the way of a new entry; directories are merged into
+  const clearPath = (path: string) => {
+    let node;
+    try {
+      node = mountManager.lstat(path);
+    } catch {
+      return;
+    }
+    if (node.type !== FileSystemNodeType.DIRECTORY) {
+      mountManager.remove(path);
+    }
+  };
+
+  for (const entry of entries) {
+    const segments = entry.name.split('/').filter(segment => segment !== '' && segment !== '.');
+    if (segments.includes('..') || (entry.type === 'hardlink' && entry.linkname.split('/').includes('..'))) {
+      errors.push(`${entry.name}: Member name contains '..'`);
+      continue;
+    }
+    if (segments.length === 0) {
+      continue; // "./" names the directory extracted into
+    }
+
+    const path = joinPath(base, segments.join('/'));
+    const parent = joinPath(base, segments.slice(0, -1).join('/'));
+    try {
+      if (!mountManager.exists(parent)) {
+        mountManager.mkdirRecursive(parent);
+      }
+
+      switch (entry.type) {
+        case 'directory':
+          if (!mountManager.exists(path)) {
+            mountManager.mkdir(path);
+          }
+          directories.push({ path, entry });
+          break;
+        case 'symlink':
+          clearPath(path);
+          mountManager.symlink(entry.linkname, path);
+          break;
+        case 'hardlink':
+          clearPath(path);
+          mountManager.link(joinPath(base, entry.linkname.replace(/^\/+/, '')), path);
+          break;
+        default:
+          clearPath(path);
+          mountManager.writeFile(path, entry.data);
+          applyAttributes(path, entry);
+      }
+      extracted.push(entry);
+    } catch (error) {
+      errors.push(describeFailure(entry.name, 'Cannot create', error));
+    }
+  }
+
+  // Deepest first, so setting a directory's mode can't lock out its subdirectories
+  for (const { path, entry } of directories.reverse()) {
+    try {
+      applyAttributes(path, entry);
+    } catch (error) {
+      errors.push(describeFailure(entry.name, 'Cannot change attributes', error));
+    }
+  }
+
+  return { extracted, errors };
+}
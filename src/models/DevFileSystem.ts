@@ -0,0 +1,44 @@
+import { CharacterDevice, FileSystem, createDeviceNode } from './FileSystem';
+import { decodeText } from './FileContent';
+import { SystemInfo } from './FileSystemDriver';
+import { ProcessContext } from './Permissions';
+
+// Bytes returned by one read from an endless device such as /dev/zero
+export const DEVICE_READ_SIZE = 512;
+
+// Random bytes from the platform's cryptographic generator
+function randomBytes(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(DEVICE_READ_SIZE));
+}
+
+// Writes to the null device and the random pool are accepted and thrown away
+const discard = () => {};
+
+// The standard character devices, with their Linux major/minor numbers
+function createDevices(system: SystemInfo): Record<string, CharacterDevice> {
+  return {
+    null: { major: 1, minor: 3, read: () => new Uint8Array(0), write: discard },
+    zero: { major: 1, minor: 5, read: () => new Uint8Array(DEVICE_READ_SIZE), write: discard },
+    random: { major: 1, minor: 8, read: randomBytes, write: discard },
+    urandom: { major: 1, minor: 9, read: randomBytes, write: discard },
+    // The controlling terminal: output shows up in the terminal, and there's never input waiting
+    tty: {
+      major: 5,
+      minor: 0,
+      read: () => new Uint8Array(0),
+      write: data => system.writeToTerminal(decodeText(data))
+    }
+  };
+}
+
+// Device filesystem, normally mounted at /dev. It starts out holding the standard
+// character devices; root can add files and directories alongside them.
+export class DevFileSystem extends FileSystem {
+  constructor(name: string, context: ProcessContext, system: SystemInfo) {
+    super(name, 'devfs', context);
+
+    for (const [deviceName, device] of Object.entries(createDevices(system))) {
+      this.root.children.set(deviceName, createDeviceNode(deviceName, this.root, device));
+    }
+  }
+}
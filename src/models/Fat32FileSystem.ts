@@ -0,0 +1,144 @@
+import { FileSystem, FileSystemNode } from './FileSystem';
+import { FileData, getByteLength } from './FileContent';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { ProcessContext } from './Permissions';
+
+// Largest file FAT32 can store: the size field is 32 bits
+export const FAT32_MAX_FILE_SIZE = 0xffffffff;
+
+// Characters that can't appear in a FAT long file name, besides control characters
+const RESERVED_CHARACTERS = '<>:"|?*\\';
+
+// FAT stores modification times in 2-second units
+const TIME_RESOLUTION_MS = 2000;
+
+// A FAT32 volume. Names are case-insensitive but keep the case they were created with,
+// there are no owners, permission bits, symbolic links or hard links, timestamps have
+// 2-second resolution (access times only record the day), and files are limited to 4 GiB.
+// Names follow VFAT long-name rules rather than 8.3: any length and any number of dots
+// are allowed on purpose, and no short-name aliases (LONGNA~1.TXT) are generated.
+export class Fat32FileSystem extends FileSystem {
+  constructor(name: string, context: ProcessContext) {
+    super(name, 'fat32', context);
+    this.root.mode = 0o777;
+    this.roundTimes(this.root);
+  }
+
+  // Names are matched without regard to case
+  protected entryKey(name: string): string {
+    return name.toUpperCase();
+  }
+
+  // Reject names with reserved or control characters
+  protected validateName(name: string, path: string): void {
+    super.validateName(name, path);
+    for (const char of name) {
+      if (RESERVED_CHARACTERS.includes(char) || char.charCodeAt(0) < 0x20) {
+        throw new FileSystemError(ErrorCode.EINVAL, path);
+      }
+    }
+  }
+
+  // Round down to the 2-second resolution FAT can store
+  protected now(): Date {
+    return this.roundTime(new Date());
+  }
+
+  // FAT only records the date of the last access
+  protected markAccessed(node: FileSystemNode): void {
+    super.markAccessed(node);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    node.atime = today;
+  }
+
+  // Without permissions everyone may do everything
+  protected checkAccess(): void {
+    // Nothing to check
+  }
+
+  // Every node looks like rwxrwxrwx owned by root
+  protected newNodeOwnership(): { mode: number, uid: number, gid: number } {
+    return { mode: 0o777, uid: 0, gid: 0 };
+  }
+
+  // Round a time down to FAT's resolution
+  private roundTime(date: Date): Date {
+    return new Date(Math.floor(date.getTime() / TIME_RESOLUTION_MS) * TIME_RESOLUTION_MS);
+  }
+
+  // Store a newly created node's times the way FAT would
+  private roundTimes(node: FileSystemNode): void {
+    node.createdAt = this.roundTime(node.createdAt);
+    node.mtime = this.roundTime(node.mtime);
+    node.ctime = this.roundTime(node.ctime);
+    this.markAccessed(node);
+  }
+
+  // Throw EFBIG for content larger than a FAT32 file can hold
+  private checkFileSize(content: FileData, path: string): void {
+    if (getByteLength(content) > FAT32_MAX_FILE_SIZE) {
+      throw new FileSystemError(ErrorCode.EFBIG, path);
+    }
+  }
+
+  // Create a directory with FAT timestamps
+  mkdir(path: string, currentDir: string = '/'): void {
+    super.mkdir(path, currentDir);
+    this.roundTimes(this.lookup(path, currentDir));
+  }
+
+  // Create a file with FAT timestamps, up to the maximum file size
+  createFile(path: string, content: FileData = '', currentDir: string = '/'): void {
+    this.checkFileSize(content, path);
+    super.createFile(path, content, currentDir);
+    this.roundTimes(this.lookup(path, currentDir));
+  }
+
+  // Write a file, up to the maximum file size
+  writeFile(path: string, content: FileData, currentDir: string = '/'): void {
+    this.checkFileSize(content, path);
+    super.writeFile(path, content, currentDir);
+  }
+
+  // FAT has no symbolic links
+  symlink(_target: string, path: string): void {
+    throw new FileSystemError(ErrorCode.EPERM, path);
+  }
+
+  // FAT has no device nodes
+  mknod(path: string): void {
+    throw new FileSystemError(ErrorCode.EPERM, path);
+  }
+
+  // FAT has no hard links
+  link(_existingPath: string, newPath: string): void {
+    throw new FileSystemError(ErrorCode.EPERM, newPath);
+  }
+
+  // Permission bits can't be changed
+  chmod(path: string, _mode: number, currentDir: string = '/'): void {
+    throw new FileSystemError(ErrorCode.EPERM, this.lookup(path, currentDir).path);
+  }
+
+  // Ownership can't be changed
+  chown(path: string, _uid: number, _gid?: number, currentDir: string = '/'): void {
+    throw new FileSystemError(ErrorCode.EPERM, this.lookup(path, currentDir).path);
+  }
+
+  // Group ownership can't be changed
+  chgrp(path: string, _gid: number, currentDir: string = '/'): void {
+    throw new FileSystemError(ErrorCode.EPERM, this.lookup(path, currentDir).path);
+  }
+
+  // Explicit times are stored at FAT's resolution too
+  utimes(path: string, atime: Date | null, mtime: Date | null, explicit: boolean, currentDir: string = '/'): void {
+    super.utimes(path, atime, mtime && this.roundTime(mtime), explicit, currentDir);
+    const node = this.lookup(path, currentDir);
+    if (atime) {
+      const day = new Date(atime);
+      day.setHours(0, 0, 0, 0);
+      node.atime = day;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// Data accepted when writing a file: text is stored as UTF-8
+export type FileData = string | Uint8Array;
+
+const textEncoder = new TextEncoder();
+
+// Encode text as UTF-8 bytes
+export function encodeText(text: string): Uint8Array {
+  return textEncoder.encode(text);
+}
+
+// Decode bytes as text. Invalid sequences become U+FFFD, as when cat-ing a binary file.
+// Throws RangeError for an encoding label TextDecoder doesn't know.
+export function decodeText(bytes: Uint8Array, encoding: string = 'utf-8'): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+// Check whether an encoding label is supported by decodeText
+export function isSupportedEncoding(encoding: string): boolean {
+  try {
+    new TextDecoder(encoding);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Number of bytes data takes up once stored
+export function getByteLength(data: FileData): number {
+  return typeof data === 'string' ? encodeText(data).byteLength : data.byteLength;
+}
+
+// Convert data to a byte array owned by the caller
+export function toBytes(data: FileData): Uint8Array {
+  return typeof data === 'string' ? encodeText(data) : new Uint8Array(data);
+}
+
+// Encode bytes as base64, e.g. to carry file content inside JSON
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Convert in chunks; spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Decode base64 text to bytes. Throws a DOMException for malformed input.
+export function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
@@ -1,8 +1,33 @@
+import { FileData, decodeText, encodeText, toBytes } from './FileContent';
+import { FileSystemOptions } from './FileSystemDriver';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { FileSystemSnapshot, FrozenDirectory } from './FileSystemSnapshot';
+import {
+  DEFAULT_DIRECTORY_MODE,
+  DEFAULT_FILE_MODE,
+  ProcessContext,
+  R_OK,
+  S_ISGID,
+  S_ISVTX,
+  W_OK,
+  X_OK,
+  createProcessContext,
+  hasAccess,
+  isGroupMember
+} from './Permissions';
+
+// Maximum number of symbolic links followed while resolving one path (as on Linux)
+export const MAX_SYMLINK_DEPTH = 40;
+
+// Maximum length of a single name in bytes
+export const MAX_NAME_LENGTH = 255;
 
 // Represents the type of a filesystem node
 export enum FileSystemNodeType {
   FILE = 'FILE',
-  DIRECTORY = 'DIRECTORY'
+  DIRECTORY = 'DIRECTORY',
+  SYMLINK = 'SYMLINK',
+  DEVICE = 'DEVICE'
 }
 
 // Base interface for filesystem nodes
@@ -11,13 +36,32 @@ export interface FileSystemNode {
   type: FileSystemNodeType;
   parent: DirectoryNode | null;
   path: string; // Full path to this node
-  createdAt: Date;
+  createdAt: Date; // Birth time
+  atime: Date;     // Last access (read or listed)
+  mtime: Date;     // Last modification of content or directory entries
+  ctime: Date;     // Last status change (content, permissions, owner or links)
+  mode: number; // Permission bits (rwx for user/group/other plus setuid/setgid/sticky)
+  uid: number;  // Owning user ID
+  gid: number;  // Owning group ID
 }
 
-// File node with content
+// Content and attributes shared by every hard link to the same file
+export interface FileInode {
+  content: Uint8Array; // Raw bytes; text is stored as UTF-8
+  nlink: number; // Number of directory entries referring to this inode
+  mode: number;
+  uid: number;
+  gid: number;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+}
+
+// File node with content. Content, mode, ownership and times live on the shared inode.
 export interface FileNode extends FileSystemNode {
   type: FileSystemNodeType.FILE;
-  content: string;
+  content: Uint8Array;
+  inode: FileInode;
 }
 
 // Directory node with children
@@ -26,33 +70,87 @@ export interface DirectoryNode extends FileSystemNode {
   children: Map<string, FileSystemNode>;
 }
 
+// Symbolic link node pointing at another path
+export interface SymlinkNode extends FileSystemNode {
+  type: FileSystemNodeType.SYMLINK;
+  target: string;
+}
+
+// Behaviour behind a character device such as /dev/null
+export interface CharacterDevice {
+  major: number; // Driver number, shown by ls -l in place of the size
+  minor: number; // Device number within the driver
+  read(): Uint8Array;            // Bytes returned by one read
+  write(data: Uint8Array): void; // Consume written bytes
+}
+
+// Character device node: reads and writes go to the device instead of stored content
+export interface DeviceNode extends FileSystemNode {
+  type: FileSystemNodeType.DEVICE;
+  device: CharacterDevice;
+}
+
 // Create a new file node
 export function createFileNode(
   name: string, 
   parent: DirectoryNode | null, 
-  content: string = ''
+  content: FileData = '',
+  mode: number = 0o644,
+  uid: number = 0,
+  gid: number = 0
+): FileNode {
+  const now = new Date();
+  return createHardLinkNode(name, parent, {
+    content: toBytes(content), nlink: 0, mode, uid, gid, atime: now, mtime: now, ctime: now
+  });
+}
+
+// Create a file node for an existing inode (a hard link)
+export function createHardLinkNode(
+  name: string,
+  parent: DirectoryNode | null,
+  inode: FileInode
 ): FileNode {
   const parentPath = parent ? parent.path : '';
   const path = `${parentPath}/${name}`.replace(/\/+/g, '/');
-  
+  inode.nlink++;
+
   return {
     name,
     type: FileSystemNodeType.FILE,
     parent,
     path,
-    content,
-    createdAt: new Date()
+    createdAt: new Date(),
+    inode,
+    get content() { return this.inode.content; },
+    set content(value: Uint8Array) { this.inode.content = value; },
+    get mode() { return this.inode.mode; },
+    set mode(value: number) { this.inode.mode = value; },
+    get uid() { return this.inode.uid; },
+    set uid(value: number) { this.inode.uid = value; },
+    get gid() { return this.inode.gid; },
+    set gid(value: number) { this.inode.gid = value; },
+    get atime() { return this.inode.atime; },
+    set atime(value: Date) { this.inode.atime = value; },
+    get mtime() { return this.inode.mtime; },
+    set mtime(value: Date) { this.inode.mtime = value; },
+    get ctime() { return this.inode.ctime; },
+    set ctime(value: Date) { this.inode.ctime = value; }
   };
 }
 
 // Create a new directory node
 export function createDirectoryNode(
   name: string, 
-  parent: DirectoryNode | null
+  parent: DirectoryNode | null,
+  mode: number = 0o755,
+  uid: number = 0,
+  gid: number = 0
 ): DirectoryNode {
   const parentPath = parent ? parent.path : '';
   const path = `${parentPath}/${name}`.replace(/\/+/g, '/');
   if (path === '') return ROOT_DIRECTORY; // Special case for root
+  const now = new Date();
   
   return {
     name,
@@ -60,10 +158,109 @@ export function createDirectoryNode(
     parent,
     path,
     children: new Map<string, FileSystemNode>(),
-    createdAt: new Date()
+    createdAt: now,
+    atime: now,
+    mtime: now,
+    ctime: now,
+    mode,
+    uid,
+    gid
+  };
+}
+
+// Create a new symbolic link node. Links are always lrwxrwxrwx; access is checked on the target.
+export function createSymlinkNode(
+  name: string,
+  parent: DirectoryNode | null,
+  target: string,
+  uid: number = 0,
+  gid: number = 0
+): SymlinkNode {
+  const parentPath = parent ? parent.path : '';
+  const path = `${parentPath}/${name}`.replace(/\/+/g, '/');
+  const now = new Date();
+
+  return {
+    name,
+    type: FileSystemNodeType.SYMLINK,
+    parent,
+    path,
+    target,
+    createdAt: now,
+    atime: now,
+    mtime: now,
+    ctime: now,
+    mode: 0o777,
+    uid,
+    gid
+  };
+}
+
+// Create a new character device node
+export function createDeviceNode(
+  name: string,
+  parent: DirectoryNode | null,
+  device: CharacterDevice,
+  mode: number = 0o666,
+  uid: number = 0,
+  gid: number = 0
+): DeviceNode {
+  const parentPath = parent ? parent.path : '';
+  const path = `${parentPath}/${name}`.replace(/\/+/g, '/');
+  const now = new Date();
+
+  return {
+    name,
+    type: FileSystemNodeType.DEVICE,
+    parent,
+    path,
+    device,
+    createdAt: now,
+    atime: now,
+    mtime: now,
+    ctime: now,
+    mode,
+    uid,
+    gid
   };
 }
 
+// Number of hard links to a node, as shown by ls -l and stat
+export function getLinkCount(node: FileSystemNode): number {
+  switch (node.type) {
+    case FileSystemNodeType.FILE:
+      return (node as FileNode).inode.nlink;
+    case FileSystemNodeType.DIRECTORY: {
+      // "." and the entry in the parent, plus ".." in every subdirectory
+      const children = Array.from((node as DirectoryNode).children.values());
+      return 2 + children.filter(child => child.type === FileSystemNodeType.DIRECTORY).length;
+    }
+    default:
+      return 1;
+  }
+}
+
+// Size in bytes, as shown by ls -l, stat and du: content for files, target for symbolic links
+export function getNodeSize(node: FileSystemNode): number {
+  switch (node.type) {
+    case FileSystemNodeType.FILE:
+      return (node as FileNode).content.byteLength;
+    case FileSystemNodeType.SYMLINK:
+      return encodeText((node as SymlinkNode).target).byteLength;
+    case FileSystemNodeType.DEVICE:
+      return 0;
+    default:
+      return 4096;
+  }
+}
+
+// Space accounting for one filesystem, in bytes
+export interface FileSystemUsage {
+  used: number;
+  size: number | null;      // Capacity, or null if the filesystem has no size limit
+  available: number | null; // Space left, or null if unlimited
+}
+
 // Create the root directory
 export const ROOT_DIRECTORY: DirectoryNode = {
   name: '',
@@ -71,21 +268,176 @@ export const ROOT_DIRECTORY: DirectoryNode = {
   parent: null,
   path: '/',
   children: new Map<string, FileSystemNode>(),
-  createdAt: new Date()
+  createdAt: new Date(),
+  atime: new Date(),
+  mtime: new Date(),
+  ctime: new Date(),
+  mode: 0o755,
+  uid: 0,
+  gid: 0
 };
 
 export class FileSystem {
   root: DirectoryNode;
   name: string;
   fsType: string;
-
-  constructor(name: string = 'default', fsType: string = 'ext4') {
+  context: ProcessContext; // Who operations run as; shared between mounted filesystems
+  version: number = 0;     // Bumped on every change, so saved copies can tell they're out of date
+  snapshots: FileSystemSnapshot[] = []; // Frozen copies of the tree, oldest first
+  // Directories nothing inside has changed in since they were last frozen, with that frozen
+  // copy, so the next snapshot can reuse them without walking them. Changes drop the entries
+  // of every directory above them.
+  frozenDirectories = new WeakMap<DirectoryNode, FrozenDirectory>();
+
+  constructor(
+    name: string = 'default', 
+    fsType: string = 'ext4', 
+    context: ProcessContext = createProcessContext()
+  ) {
+    const now = new Date();
     this.root = {
       ...ROOT_DIRECTORY,
-      children: new Map<string, FileSystemNode>()
+      children: new Map<string, FileSystemNode>(),
+      createdAt: now,
+      atime: now,
+      mtime: now,
+      ctime: now
     };
     this.name = name;
     this.fsType = fsType;
+    this.context = context;
+  }
+
+  // Throw EACCES unless the current credentials have the requested access to a node
+  protected checkAccess(node: FileSystemNode, access: number): void {
+    const isDirectory = node.type === FileSystemNodeType.DIRECTORY;
+    if (!hasAccess(node, isDirectory, this.context.credentials, access)) {
+      throw new FileSystemError(ErrorCode.EACCES, node.path);
+    }
+  }
+
+  // Mode, owner and group for a node about to be created in a directory
+  protected newNodeOwnership(parentNode: DirectoryNode, isDirectory: boolean) {
+    const { credentials, umask } = this.context;
+    const baseMode = isDirectory ? DEFAULT_DIRECTORY_MODE : DEFAULT_FILE_MODE;
+    const inheritGroup = (parentNode.mode & S_ISGID) !== 0;
+
+    return {
+      // Directories created under a setgid directory are setgid too
+      mode: (baseMode & ~umask) | (inheritGroup && isDirectory ? S_ISGID : 0),
+      uid: credentials.uid,
+      gid: inheritGroup ? parentNode.gid : credentials.gid
+    };
+  }
+
+  // Current time as stored in timestamps
+  protected now(): Date {
+    return new Date();
+  }
+
+  // Key a name is stored under in DirectoryNode.children. Case-insensitive filesystems
+  // fold case here while nodes keep the name as it was given.
+  protected entryKey(name: string): string {
+    return name;
+  }
+
+  // Check that a new entry name is allowed, throwing if it isn't
+  protected validateName(name: string, path: string): void {
+    if (encodeText(name).byteLength > MAX_NAME_LENGTH) {
+      throw new FileSystemError(ErrorCode.ENAMETOOLONG, path);
+    }
+  }
+
+  // Record that a node was read or listed
+  protected markAccessed(node: FileSystemNode): void {
+    node.atime = this.now();
+    this.forgetFrozen(node);
+  }
+
+  // Record that a node's content (or a directory's entries) changed
+  protected markModified(node: FileSystemNode): void {
+    const now = this.now();
+    node.mtime = now;
+    node.ctime = now;
+    this.version++;
+    this.forgetFrozen(node);
+  }
+
+  // Record that a node's attributes changed
+  protected markChanged(node: FileSystemNode): void {
+    node.ctime = this.now();
+    this.version++;
+    this.forgetFrozen(node);
+  }
+
+  // Drop the frozen copies of a changed node, if it's a directory, and of every directory above it
+  private forgetFrozen(node: FileSystemNode): void {
+    let directory = node.type === FileSystemNodeType.DIRECTORY ? node as DirectoryNode : node.parent;
+    for (; directory; directory = directory.parent) {
+      this.frozenDirectories.delete(directory);
+    }
+  }
+
+  // In a sticky directory only the owner of an entry or of the directory may remove or rename it
+  private checkSticky(parentNode: DirectoryNode, node: FileSystemNode, path: string): void {
+    const { uid } = this.context.credentials;
+    if ((parentNode.mode & S_ISVTX) && uid !== 0 && uid !== node.uid && uid !== parentNode.uid) {
+      throw new FileSystemError(ErrorCode.EPERM, path);
+    }
+  }
+
+  // Recompute the stored path of a node and all of its descendants after it moved
+  private updatePaths(node: FileSystemNode): void {
+    const parentPath = node.parent ? node.parent.path : '';
+    node.path = `${parentPath}/${node.name}`.replace(/\/+/g, '/');
+
+    if (node.type === FileSystemNodeType.DIRECTORY) {
+      for (const child of (node as DirectoryNode).children.values()) {
+        this.updatePaths(child);
+      }
+    }
+  }
+
+  // Bytes of file content stored, counting content shared by hard links once
+  getUsedBytes(): number {
+    const inodes = new Set<FileInode>();
+    const visit = (node: FileSystemNode) => {
+      if (node.type === FileSystemNodeType.FILE) {
+        inodes.add((node as FileNode).inode);
+      } else if (node.type === FileSystemNodeType.DIRECTORY) {
+        (node as DirectoryNode).children.forEach(visit);
+      }
+    };
+    visit(this.root);
+
+    let used = 0;
+    inodes.forEach(inode => { used += inode.content.byteLength; });
+    return used;
+  }
+
+  // Whether the tree is worth saving between sessions. Filesystems that generate
+  // their content are rebuilt from scratch instead.
+  isPersistent(): boolean {
+    return true;
+  }
+
+  // Space used and, for filesystems with a size limit, the capacity and space left
+  getUsage(): FileSystemUsage {
+    return { used: this.getUsedBytes(), size: null, available: null };
+  }
+
+  // Apply changed driver options while mounted (mount -o remount). Filesystems
+  // without adjustable options reject any with EINVAL.
+  remount(options: FileSystemOptions): void {
+    const [unsupported] = Object.keys(options);
+    if (unsupported !== undefined) {
+      throw new FileSystemError(ErrorCode.EINVAL, unsupported);
+    }
+  }
+
+  // Check that the current credentials can access a path (like access(2))
+  access(path: string, access: number, currentDir: string = '/'): void {
+    this.checkAccess(this.lookup(path, currentDir), access);
   }
 
   // Normalize path (handle . and .. and ensure starting /)
@@ -121,26 +473,49 @@ export class FileSystem {
     return '/' + result.join('/');
   }
 
-  // Find a node by path
-  findNode(path: string, currentDir: string = '/'): FileSystemNode | null {
+  // Find a node by path, throwing ENOENT/ENOTDIR/ELOOP if it can't be reached.
+  // Symbolic links are followed, except for the last segment when followLast is false.
+  // Absolute link targets are resolved against this filesystem's own root.
+  lookup(path: string, currentDir: string = '/', followLast: boolean = true): FileSystemNode {
     const normalizedPath = this.normalizePath(path, currentDir);
-    
-    // Special case for root
-    if (normalizedPath === '/') {
-      return this.root;
-    }
-
-    const segments = normalizedPath.split('/').filter(seg => seg !== '');
+    let remaining = normalizedPath.split('/').filter(seg => seg !== '');
     let currentNode: FileSystemNode = this.root;
+    let linksFollowed = 0;
+
+    while (remaining.length > 0) {
+      const segment = remaining.shift();
 
-    for (const segment of segments) {
       if (currentNode.type !== FileSystemNodeType.DIRECTORY) {
-        return null; // Can't navigate into a file
+        throw new FileSystemError(ErrorCode.ENOTDIR, normalizedPath); // Can't navigate into a file
+      }
+
+      // Searching a directory requires execute permission on it
+      this.checkAccess(currentNode, X_OK);
+
+      // Link targets may contain . and .. segments
+      if (segment === '.') continue;
+      if (segment === '..') {
+        currentNode = currentNode.parent ?? this.root;
+        continue;
       }
 
-      const nextNode = (currentNode as DirectoryNode).children.get(segment);
+      const nextNode = (currentNode as DirectoryNode).children.get(this.entryKey(segment));
       if (!nextNode) {
-        return null; // Path segment not found
+        throw new FileSystemError(ErrorCode.ENOENT, normalizedPath); // Path segment not found
+      }
+
+      if (nextNode.type === FileSystemNodeType.SYMLINK && (remaining.length > 0 || followLast)) {
+        if (++linksFollowed > MAX_SYMLINK_DEPTH) {
+          throw new FileSystemError(ErrorCode.ELOOP, normalizedPath);
+        }
+
+        // Continue from the link target instead of the link itself
+        const target = (nextNode as SymlinkNode).target;
+        if (target.startsWith('/')) {
+          currentNode = this.root;
+        }
+        remaining = [...target.split('/').filter(seg => seg !== ''), ...remaining];
+        continue;
       }
 
       currentNode = nextNode;
@@ -149,46 +524,63 @@ export class FileSystem {
     return currentNode;
   }
 
+  // Find a node by path
+  findNode(path: string, currentDir: string = '/', followLast: boolean = true): FileSystemNode | null {
+    try {
+      return this.lookup(path, currentDir, followLast);
+    } catch (error) {
+      if (error instanceof FileSystemError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Find the directory that should contain a normalized path, and the entry name within it
+  private lookupParent(normalizedPath: string): { parentNode: DirectoryNode, name: string } {
+    const lastSlashIndex = normalizedPath.lastIndexOf('/');
+    const parentPath = normalizedPath.substring(0, lastSlashIndex) || '/';
+    const name = normalizedPath.substring(lastSlashIndex + 1);
+
+    const parentNode = this.lookup(parentPath);
+    if (parentNode.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, parentPath);
+    }
+
+    return { parentNode: parentNode as DirectoryNode, name };
+  }
+
   // Create a directory at the specified path
-  mkdir(path: string, currentDir: string = '/'): boolean {
+  mkdir(path: string, currentDir: string = '/'): void {
     const normalizedPath = this.normalizePath(path, currentDir);
     
     // Don't allow creating root again
     if (normalizedPath === '/') {
-      return false;
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
     }
 
     // Get the parent directory and the new directory name
-    const lastSlashIndex = normalizedPath.lastIndexOf('/');
-    const parentPath = normalizedPath.substring(0, lastSlashIndex) || '/';
-    const dirName = normalizedPath.substring(lastSlashIndex + 1);
-
-    // Find the parent directory node
-    const parentNode = this.findNode(parentPath);
-    if (!parentNode || parentNode.type !== FileSystemNodeType.DIRECTORY) {
-      return false; // Parent directory doesn't exist or is a file
-    }
+    const { parentNode, name: dirName } = this.lookupParent(normalizedPath);
 
     // Check if a node with this name already exists
-    if ((parentNode as DirectoryNode).children.has(dirName)) {
-      return false; // Node with this name already exists
+    if (parentNode.children.has(this.entryKey(dirName))) {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
     }
 
+    this.validateName(dirName, normalizedPath);
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+
     // Create the new directory
-    const newDir = createDirectoryNode(dirName, parentNode as DirectoryNode);
-    (parentNode as DirectoryNode).children.set(dirName, newDir);
-    return true;
+    const { mode, uid, gid } = this.newNodeOwnership(parentNode, true);
+    const newDir = createDirectoryNode(dirName, parentNode, mode, uid, gid);
+    parentNode.children.set(this.entryKey(dirName), newDir);
+    this.markModified(parentNode);
   }
 
   // Create directories recursively (like mkdir -p)
-  mkdirRecursive(path: string, currentDir: string = '/'): boolean {
+  mkdirRecursive(path: string, currentDir: string = '/'): void {
     const normalizedPath = this.normalizePath(path, currentDir);
-    
-    // Don't allow creating root again
-    if (normalizedPath === '/') {
-      return false;
-    }
-
     const segments = normalizedPath.split('/').filter(seg => seg !== '');
     let currentPath = '';
 
@@ -199,112 +591,375 @@ export class FileSystem {
       const node = this.findNode(currentPath);
       if (node) {
         // If it exists but is a file, we can't create a directory here
-        if (node.type === FileSystemNodeType.FILE) {
-          return false;
+        if (node.type !== FileSystemNodeType.DIRECTORY) {
+          throw new FileSystemError(ErrorCode.ENOTDIR, currentPath);
         }
         // If it's a directory, continue to the next segment
         continue;
       }
 
       // Create this directory segment
-      if (!this.mkdir(currentPath)) {
-        return false;
-      }
+      this.mkdir(currentPath);
     }
-
-    return true;
   }
 
   // Create a file at the specified path
-  createFile(path: string, content: string = '', currentDir: string = '/'): boolean {
+  createFile(path: string, content: FileData = '', currentDir: string = '/'): void {
     const normalizedPath = this.normalizePath(path, currentDir);
     
     // Can't create a file at the root path
     if (normalizedPath === '/') {
-      return false;
+      throw new FileSystemError(ErrorCode.EISDIR, normalizedPath);
     }
 
     // Get the parent directory and the file name
-    const lastSlashIndex = normalizedPath.lastIndexOf('/');
-    const parentPath = normalizedPath.substring(0, lastSlashIndex) || '/';
-    const fileName = normalizedPath.substring(lastSlashIndex + 1);
-
-    // Find the parent directory node
-    const parentNode = this.findNode(parentPath);
-    if (!parentNode || parentNode.type !== FileSystemNodeType.DIRECTORY) {
-      return false; // Parent directory doesn't exist or is a file
-    }
+    const { parentNode, name: fileName } = this.lookupParent(normalizedPath);
 
     // Check if a node with this name already exists
-    if ((parentNode as DirectoryNode).children.has(fileName)) {
-      return false; // Node with this name already exists
+    if (parentNode.children.has(this.entryKey(fileName))) {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
     }
 
+    this.validateName(fileName, normalizedPath);
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+
     // Create the new file
-    const newFile = createFileNode(fileName, parentNode as DirectoryNode, content);
-    (parentNode as DirectoryNode).children.set(fileName, newFile);
-    return true;
+    const { mode, uid, gid } = this.newNodeOwnership(parentNode, false);
+    const newFile = createFileNode(fileName, parentNode, content, mode, uid, gid);
+    parentNode.children.set(this.entryKey(fileName), newFile);
+    this.markModified(parentNode);
   }
 
-  // Write content to a file
-  writeFile(path: string, content: string, currentDir: string = '/'): boolean {
+  // Write content to a file, replacing what was there
+  writeFile(path: string, content: FileData, currentDir: string = '/'): void {
     const fileNode = this.findNode(path, currentDir);
     
     if (!fileNode) {
       // If file doesn't exist, try to create it
-      return this.createFile(path, content, currentDir);
+      this.createFile(path, content, currentDir);
+      return;
     }
     
+    if (fileNode.type === FileSystemNodeType.DEVICE) {
+      this.checkAccess(fileNode, W_OK);
+      (fileNode as DeviceNode).device.write(toBytes(content));
+      this.markModified(fileNode);
+      return;
+    }
+
     if (fileNode.type !== FileSystemNodeType.FILE) {
-      return false; // Can't write to a directory
+      throw new FileSystemError(ErrorCode.EISDIR, fileNode.path); // Can't write to a directory
     }
 
+    this.checkAccess(fileNode, W_OK);
+
     // Update the file content
-    (fileNode as FileNode).content = content;
-    return true;
+    (fileNode as FileNode).content = toBytes(content);
+    this.markModified(fileNode);
   }
 
-  // Read content from a file
-  readFile(path: string, currentDir: string = '/'): string | null {
-    const fileNode = this.findNode(path, currentDir);
+  // Read a file's raw bytes, or one read's worth from a device
+  readFileBytes(path: string, currentDir: string = '/'): Uint8Array {
+    const fileNode = this.lookup(path, currentDir);
+
+    if (fileNode.type === FileSystemNodeType.DEVICE) {
+      this.checkAccess(fileNode, R_OK);
+      this.markAccessed(fileNode);
+      return (fileNode as DeviceNode).device.read();
+    }
     
-    if (!fileNode || fileNode.type !== FileSystemNodeType.FILE) {
-      return null; // File doesn't exist or is a directory
+    if (fileNode.type !== FileSystemNodeType.FILE) {
+      throw new FileSystemError(ErrorCode.EISDIR, fileNode.path); // Can't read a directory
     }
 
-    return (fileNode as FileNode).content;
+    this.checkAccess(fileNode, R_OK);
+    this.markAccessed(fileNode);
+
+    return (fileNode as FileNode).content.slice();
+  }
+
+  // Read a file as text in the given encoding
+  readFile(path: string, currentDir: string = '/', encoding: string = 'utf-8'): string {
+    return decodeText(this.readFileBytes(path, currentDir), encoding);
   }
 
   // List contents of a directory
-  listDirectory(path: string, currentDir: string = '/'): FileSystemNode[] | null {
-    const dirNode = this.findNode(path, currentDir);
+  listDirectory(path: string, currentDir: string = '/'): FileSystemNode[] {
+    const dirNode = this.lookup(path, currentDir);
     
-    if (!dirNode || dirNode.type !== FileSystemNodeType.DIRECTORY) {
-      return null; // Directory doesn't exist or is a file
+    if (dirNode.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, dirNode.path); // Can't list a file
     }
 
+    this.checkAccess(dirNode, R_OK);
+    this.markAccessed(dirNode);
+
     return Array.from((dirNode as DirectoryNode).children.values());
   }
 
-  // Remove a file or directory
-  remove(path: string, currentDir: string = '/'): boolean {
+  // Remove a file or symbolic link (like unlink(2)). Directories must be removed with rmdir.
+  remove(path: string, currentDir: string = '/'): void {
     const normalizedPath = this.normalizePath(path, currentDir);
     
     // Can't remove root
     if (normalizedPath === '/') {
-      return false;
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
     }
 
-    const lastSlashIndex = normalizedPath.lastIndexOf('/');
-    const parentPath = normalizedPath.substring(0, lastSlashIndex) || '/';
-    const nodeName = normalizedPath.substring(lastSlashIndex + 1);
+    const { parentNode, name: nodeName } = this.lookupParent(normalizedPath);
+    const node = parentNode.children.get(this.entryKey(nodeName));
+    if (!node) {
+      throw new FileSystemError(ErrorCode.ENOENT, normalizedPath);
+    }
+    if (node.type === FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.EISDIR, normalizedPath);
+    }
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+    this.checkSticky(parentNode, node, normalizedPath);
+
+    // Remove the entry; the file's content goes away with its last link
+    parentNode.children.delete(this.entryKey(nodeName));
+    this.markModified(parentNode);
+    if (node.type === FileSystemNodeType.FILE) {
+      (node as FileNode).inode.nlink--;
+      this.markChanged(node);
+    }
+  }
+
+  // Remove an empty directory (like rmdir(2))
+  rmdir(path: string, currentDir: string = '/'): void {
+    const normalizedPath = this.normalizePath(path, currentDir);
+
+    // Can't remove root
+    if (normalizedPath === '/') {
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
+    }
+
+    const { parentNode, name: dirName } = this.lookupParent(normalizedPath);
+    const node = parentNode.children.get(this.entryKey(dirName));
+    if (!node) {
+      throw new FileSystemError(ErrorCode.ENOENT, normalizedPath);
+    }
+    if (node.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, normalizedPath);
+    }
+    if ((node as DirectoryNode).children.size > 0) {
+      throw new FileSystemError(ErrorCode.ENOTEMPTY, normalizedPath);
+    }
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+    this.checkSticky(parentNode, node, normalizedPath);
+
+    parentNode.children.delete(this.entryKey(dirName));
+    this.markModified(parentNode);
+  }
+
+  // Move or rename a node within this filesystem (like rename(2)).
+  // An existing destination is replaced if it is compatible: a file by a file,
+  // or an empty directory by a directory.
+  rename(oldPath: string, newPath: string, currentDir: string = '/'): void {
+    const oldNormalized = this.normalizePath(oldPath, currentDir);
+    const newNormalized = this.normalizePath(newPath, currentDir);
+
+    if (oldNormalized === '/' || newNormalized === '/') {
+      throw new FileSystemError(ErrorCode.EBUSY, '/');
+    }
+
+    const { parentNode: oldParent, name: oldName } = this.lookupParent(oldNormalized);
+    const node = oldParent.children.get(this.entryKey(oldName));
+    if (!node) {
+      throw new FileSystemError(ErrorCode.ENOENT, oldNormalized);
+    }
+
+    const { parentNode: newParent, name: newName } = this.lookupParent(newNormalized);
+    this.validateName(newName, newNormalized);
+
+    // A directory can't be moved inside itself
+    for (let dir: DirectoryNode | null = newParent; dir; dir = dir.parent) {
+      if (dir === node) {
+        throw new FileSystemError(ErrorCode.EINVAL, newNormalized);
+      }
+    }
+
+    this.checkAccess(oldParent, W_OK | X_OK);
+    this.checkAccess(newParent, W_OK | X_OK);
+    this.checkSticky(oldParent, node, oldNormalized);
+
+    const existing = newParent.children.get(this.entryKey(newName));
+    if (existing === node && node.name === newName) {
+      return;
+    }
+
+    // Replace the destination, unless it's the same entry under a differently cased name
+    if (existing && existing !== node) {
+      if (existing.type === FileSystemNodeType.DIRECTORY) {
+        if (node.type !== FileSystemNodeType.DIRECTORY) {
+          throw new FileSystemError(ErrorCode.EISDIR, newNormalized);
+        }
+        if ((existing as DirectoryNode).children.size > 0) {
+          throw new FileSystemError(ErrorCode.ENOTEMPTY, newNormalized);
+        }
+      } else if (node.type === FileSystemNodeType.DIRECTORY) {
+        throw new FileSystemError(ErrorCode.ENOTDIR, newNormalized);
+      }
+
+      this.checkSticky(newParent, existing, newNormalized);
+      newParent.children.delete(this.entryKey(newName));
+      if (existing.type === FileSystemNodeType.FILE) {
+        (existing as FileNode).inode.nlink--;
+        this.markChanged(existing);
+      }
+    }
+
+    // Re-parent the node and fix up the stored paths below it
+    oldParent.children.delete(this.entryKey(oldName));
+    node.name = newName;
+    node.parent = newParent;
+    newParent.children.set(this.entryKey(newName), node);
+    this.updatePaths(node);
+
+    this.markModified(oldParent);
+    this.markModified(newParent);
+    this.markChanged(node);
+  }
+
+  // Create a symbolic link at path pointing to target. The target is stored as given.
+  symlink(target: string, path: string, currentDir: string = '/'): void {
+    const normalizedPath = this.normalizePath(path, currentDir);
+    if (normalizedPath === '/') {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    const { parentNode, name } = this.lookupParent(normalizedPath);
+    if (parentNode.children.has(this.entryKey(name))) {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    this.validateName(name, normalizedPath);
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+
+    const { uid, gid } = this.newNodeOwnership(parentNode, false);
+    parentNode.children.set(this.entryKey(name), createSymlinkNode(name, parentNode, target, uid, gid));
+    this.markModified(parentNode);
+  }
+
+  // Create a character device node (like mknod(2))
+  mknod(path: string, device: CharacterDevice, mode: number = 0o666, currentDir: string = '/'): void {
+    const normalizedPath = this.normalizePath(path, currentDir);
+    if (normalizedPath === '/') {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    const { parentNode, name } = this.lookupParent(normalizedPath);
+    if (parentNode.children.has(this.entryKey(name))) {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    this.validateName(name, normalizedPath);
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+
+    const { uid, gid } = this.newNodeOwnership(parentNode, false);
+    parentNode.children.set(this.entryKey(name), createDeviceNode(name, parentNode, device, mode, uid, gid));
+    this.markModified(parentNode);
+  }
+
+  // Create a hard link at newPath to the file at existingPath
+  link(existingPath: string, newPath: string, currentDir: string = '/'): void {
+    const existing = this.lookup(existingPath, currentDir);
+    if (existing.type !== FileSystemNodeType.FILE) {
+      // Hard links to directories are not allowed
+      throw new FileSystemError(ErrorCode.EPERM, existing.path);
+    }
 
-    const parentNode = this.findNode(parentPath);
-    if (!parentNode || parentNode.type !== FileSystemNodeType.DIRECTORY) {
-      return false; // Parent directory doesn't exist or is a file
+    const normalizedPath = this.normalizePath(newPath, currentDir);
+    if (normalizedPath === '/') {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    const { parentNode, name } = this.lookupParent(normalizedPath);
+    if (parentNode.children.has(this.entryKey(name))) {
+      throw new FileSystemError(ErrorCode.EEXIST, normalizedPath);
+    }
+
+    this.validateName(name, normalizedPath);
+
+    this.checkAccess(parentNode, W_OK | X_OK);
+
+    parentNode.children.set(this.entryKey(name), createHardLinkNode(name, parentNode, (existing as FileNode).inode));
+    this.markModified(parentNode);
+    this.markChanged(existing);
+  }
+
+  // Read the target of a symbolic link
+  readlink(path: string, currentDir: string = '/'): string {
+    const node = this.lookup(path, currentDir, false);
+    if (node.type !== FileSystemNodeType.SYMLINK) {
+      throw new FileSystemError(ErrorCode.EINVAL, node.path);
+    }
+
+    return (node as SymlinkNode).target;
+  }
+
+  // Change the permission bits of a node; only its owner or root may do this
+  chmod(path: string, mode: number, currentDir: string = '/'): void {
+    const node = this.lookup(path, currentDir);
+    const { uid } = this.context.credentials;
+
+    if (uid !== 0 && uid !== node.uid) {
+      throw new FileSystemError(ErrorCode.EPERM, node.path);
+    }
+
+    node.mode = mode & 0o7777;
+    this.markChanged(node);
+  }
+
+  // Change the owner (and optionally group) of a node; only root may do this
+  chown(path: string, uid: number, gid?: number, currentDir: string = '/'): void {
+    const node = this.lookup(path, currentDir);
+
+    if (this.context.credentials.uid !== 0) {
+      throw new FileSystemError(ErrorCode.EPERM, node.path);
+    }
+
+    node.uid = uid;
+    if (gid !== undefined) {
+      node.gid = gid;
+    }
+    this.markChanged(node);
+  }
+
+  // Change the group of a node; the owner may only pick a group they belong to
+  chgrp(path: string, gid: number, currentDir: string = '/'): void {
+    const node = this.lookup(path, currentDir);
+    const { credentials } = this.context;
+
+    if (credentials.uid !== 0 && (credentials.uid !== node.uid || !isGroupMember(credentials, gid))) {
+      throw new FileSystemError(ErrorCode.EPERM, node.path);
+    }
+
+    node.gid = gid;
+    this.markChanged(node);
+  }
+
+  // Set access and modification times (like utimensat). Setting them to the current time
+  // only needs write access; setting explicit times requires owning the node.
+  utimes(path: string, atime: Date | null, mtime: Date | null, explicit: boolean, currentDir: string = '/'): void {
+    const node = this.lookup(path, currentDir);
+    const { uid } = this.context.credentials;
+
+    if (uid !== 0 && uid !== node.uid) {
+      if (explicit) {
+        throw new FileSystemError(ErrorCode.EPERM, node.path);
+      }
+      this.checkAccess(node, W_OK);
     }
 
-    // Remove the node
-    return (parentNode as DirectoryNode).children.delete(nodeName);
+    if (atime) node.atime = atime;
+    if (mtime) node.mtime = mtime;
+    this.markChanged(node);
   }
 }
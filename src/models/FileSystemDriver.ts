@@ -0,0 +1,182 @@
+import { DevFileSystem } from './DevFileSystem';
+import { Fat32FileSystem } from './Fat32FileSystem';
+import { FileSystem } from './FileSystem';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { MountPoint } from './MountManager';
+import { OverlayFileSystem } from './OverlayFileSystem';
+import { ProcessContext } from './Permissions';
+import { ProcFileSystem } from './ProcFileSystem';
+import { DEFAULT_TMPFS_SIZE, TmpFileSystem, parseSize } from './TmpFileSystem';
+import { ZipFileSystem } from './ZipFileSystem';
+
+// Options given to mount -o, e.g. { size: '16M' }. Flags without a value map to ''.
+export type FileSystemOptions = Record<string, string>;
+
+// Live state of the system a filesystem is mounted into, for synthetic filesystems like proc
+export interface SystemInfo {
+  getMounts(): MountPoint[];
+  getPhysicalDirectory(): string; // Working directory with symbolic links resolved
+  getCommandHistory(): string[];
+  getUptime(): number; // Seconds since the system started
+  getDriverRegistry(): FileSystemDriverRegistry;
+  writeToTerminal(text: string): void; // Show output written to /dev/tty
+}
+
+// Creates the filesystem instances for one filesystem type, e.g. "ext4"
+export interface FileSystemDriver {
+  type: string;        // Name passed to mount
+  description: string; // Shown when listing supported types
+  // Create a filesystem, throwing EINVAL for option values the driver can't use
+  createFileSystem(
+    name: string, 
+    context: ProcessContext, 
+    options: FileSystemOptions, 
+    system: SystemInfo
+  ): FileSystem;
+}
+
+// Parse a comma-separated mount option list such as "size=16M,mode=1777"
+export function parseFileSystemOptions(spec: string): FileSystemOptions {
+  const options: FileSystemOptions = {};
+  for (const option of spec.split(',').filter(opt => opt !== '')) {
+    const separator = option.indexOf('=');
+    if (separator === -1) {
+      options[option] = '';
+    } else {
+      options[option.substring(0, separator)] = option.substring(separator + 1);
+    }
+  }
+  return options;
+}
+
+// Throw EINVAL for the first option a driver doesn't understand
+export function rejectUnknownOptions(options: FileSystemOptions, known: string[] = []): void {
+  const unknown = Object.keys(options).find(key => !known.includes(key));
+  if (unknown !== undefined) {
+    throw new FileSystemError(ErrorCode.EINVAL, unknown);
+  }
+}
+
+// In-memory POSIX filesystem: the default type
+export const ext4Driver: FileSystemDriver = {
+  type: 'ext4',
+  description: 'Fourth extended filesystem with full POSIX semantics',
+  createFileSystem: (name, context, options) => {
+    rejectUnknownOptions(options);
+    return new FileSystem(name, 'ext4', context);
+  }
+};
+
+// Memory-backed POSIX filesystem with a size limit (size=, default 64M)
+export const tmpfsDriver: FileSystemDriver = {
+  type: 'tmpfs',
+  description: 'Temporary filesystem kept in memory, limited to size= bytes',
+  createFileSystem: (name, context, options) => {
+    rejectUnknownOptions(options, ['size']);
+    const size = options.size !== undefined ? parseSize(options.size) : DEFAULT_TMPFS_SIZE;
+    if (size === null || size === 0) {
+      throw new FileSystemError(ErrorCode.EINVAL, `size=${options.size}`);
+    }
+    return new TmpFileSystem(name, context, size);
+  }
+};
+
+// FAT32 volume, as found on USB sticks and SD cards. Long (VFAT) names are allowed:
+// names are not limited to 8.3 and no short-name aliases exist
+export const fat32Driver: FileSystemDriver = {
+  type: 'fat32',
+  description: 'FAT32 with case-insensitive VFAT long names and no permissions or links',
+  createFileSystem: (name, context, options) => {
+    rejectUnknownOptions(options);
+    return new Fat32FileSystem(name, context);
+  }
+};
+
+// Read-only view of the live system, generated on every read
+export const procDriver: FileSystemDriver = {
+  type: 'proc',
+  description: 'Process information pseudo-filesystem',
+  createFileSystem: (name, context, options, system) => {
+    rejectUnknownOptions(options);
+    return new ProcFileSystem(name, context, system);
+  }
+};
+
+// Standard character devices such as /dev/null and /dev/tty
+export const devfsDriver: FileSystemDriver = {
+  type: 'devfs',
+  description: 'Device filesystem with the standard character devices',
+  createFileSystem: (name, context, options, system) => {
+    rejectUnknownOptions(options);
+    return new DevFileSystem(name, context, system);
+  }
+};
+
+// Union of two directories; where they live is checked by MountManager when mounting
+export const overlayDriver: FileSystemDriver = {
+  type: 'overlay',
+  description: 'Union of a read-only lowerdir= and a writable upperdir=',
+  createFileSystem: (name, context, options) => {
+    rejectUnknownOptions(options, ['lowerdir', 'upperdir']);
+    const missing = ['lowerdir', 'upperdir'].find(key => !options[key]);
+    if (missing !== undefined) {
+      throw new FileSystemError(ErrorCode.EINVAL, missing);
+    }
+    return new OverlayFileSystem(name, context, options.lowerdir, options.upperdir);
+  }
+};
+
+// Read-only contents of a zip archive; the archive itself is loaded by MountManager when mounting
+export const zipDriver: FileSystemDriver = {
+  type: 'zip',
+  description: 'Read-only view of a zip archive, decompressing files as they are read',
+  createFileSystem: (name, context, options) => {
+    rejectUnknownOptions(options);
+    return new ZipFileSystem(name, context);
+  }
+};
+
+// The filesystem types that can be mounted, by name
+export class FileSystemDriverRegistry {
+  private drivers = new Map<string, FileSystemDriver>();
+
+  constructor(drivers: FileSystemDriver[] = [
+    devfsDriver, ext4Driver, fat32Driver, overlayDriver, procDriver, tmpfsDriver, zipDriver
+  ]) {
+    drivers.forEach(driver => this.register(driver));
+  }
+
+  // Add a driver, replacing any existing driver for the same type
+  register(driver: FileSystemDriver): void {
+    this.drivers.set(driver.type, driver);
+  }
+
+  // Remove the driver for a type
+  unregister(type: string): boolean {
+    return this.drivers.delete(type);
+  }
+
+  // Get the driver for a type, throwing ENODEV if it isn't supported
+  get(type: string): FileSystemDriver {
+    const driver = this.drivers.get(type);
+    if (!driver) {
+      throw new FileSystemError(ErrorCode.ENODEV, type);
+    }
+    return driver;
+  }
+
+  // Check whether a type can be mounted
+  has(type: string): boolean {
+    return this.drivers.has(type);
+  }
+
+  // All registered drivers, sorted by type
+  getDrivers(): FileSystemDriver[] {
+    return Array.from(this.drivers.values()).sort((a, b) => a.type.localeCompare(b.type));
+  }
+
+  // Names of all supported types, sorted
+  getSupportedTypes(): string[] {
+    return this.getDrivers().map(driver => driver.type);
+  }
+}
@@ -0,0 +1,66 @@
+// POSIX-style error codes raised by the filesystem layer
+export enum ErrorCode {
+  EPERM = 'EPERM',
+  ENOENT = 'ENOENT',
+  EACCES = 'EACCES',
+  EBUSY = 'EBUSY',
+  EEXIST = 'EEXIST',
+  EXDEV = 'EXDEV',
+  ENODEV = 'ENODEV',
+  ENOTDIR = 'ENOTDIR',
+  EISDIR = 'EISDIR',
+  EINVAL = 'EINVAL',
+  EFBIG = 'EFBIG',
+  ENOSPC = 'ENOSPC',
+  EROFS = 'EROFS',
+  ENAMETOOLONG = 'ENAMETOOLONG',
+  ENOTEMPTY = 'ENOTEMPTY',
+  ELOOP = 'ELOOP',
+  EBADF = 'EBADF',
+  EIO = 'EIO'
+}
+
+// Human readable descriptions, worded like strerror(3) on Linux
+const ERROR_DESCRIPTIONS: Record<ErrorCode, string> = {
+  [ErrorCode.EPERM]: 'Operation not permitted',
+  [ErrorCode.ENOENT]: 'No such file or directory',
+  [ErrorCode.EACCES]: 'Permission denied',
+  [ErrorCode.EBUSY]: 'Device or resource busy',
+  [ErrorCode.EEXIST]: 'File exists',
+  [ErrorCode.EXDEV]: 'Invalid cross-device link',
+  [ErrorCode.ENODEV]: 'No such device',
+  [ErrorCode.ENOTDIR]: 'Not a directory',
+  [ErrorCode.EISDIR]: 'Is a directory',
+  [ErrorCode.EINVAL]: 'Invalid argument',
+  [ErrorCode.EFBIG]: 'File too large',
+  [ErrorCode.ENOSPC]: 'No space left on device',
+  [ErrorCode.EROFS]: 'Read-only file system',
+  [ErrorCode.ENAMETOOLONG]: 'File name too long',
+  [ErrorCode.ENOTEMPTY]: 'Directory not empty',
+  [ErrorCode.ELOOP]: 'Too many levels of symbolic links',
+  [ErrorCode.EBADF]: 'Bad file descriptor',
+  [ErrorCode.EIO]: 'Input/output error'
+};
+
+// Get the description for an error code
+export function strerror(code: ErrorCode): string {
+  return ERROR_DESCRIPTIONS[code];
+}
+
+// Error thrown by FileSystem and MountManager operations
+export class FileSystemError extends Error {
+  code: ErrorCode;
+  path: string; // Path the failing operation was working on
+
+  constructor(code: ErrorCode, path: string = '') {
+    super(path ? `${code}: ${strerror(code)}, '${path}'` : `${code}: ${strerror(code)}`);
+    this.name = 'FileSystemError';
+    this.code = code;
+    this.path = path;
+  }
+
+  // Description without the code or path, for command output
+  get description(): string {
+    return strerror(this.code);
+  }
+}
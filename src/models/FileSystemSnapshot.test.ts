@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DirectoryNode, FileSystem } from './FileSystem';
+import { FrozenDirectory } from './FileSystemSnapshot';
+import { MountManager } from './MountManager';
+
+describe('FileSystemSnapshot', () => {
+  let system: MountManager;
+  let fs: FileSystem;
+
+  // The frozen copy of a directory in a snapshot, by its path within the filesystem
+  const frozen = (root: FrozenDirectory, path: string) => path.split('/').filter(Boolean)
+    .reduce((directory, name) => directory.children.get(name) as FrozenDirectory, root);
+
+  // A tmpfs at /t with a file in each of two directories
+  beforeEach(() => {
+    system = new MountManager();
+    system.mount('tmpfs', '/t');
+    system.mkdirRecursive('/t/a/deep');
+    system.mkdir('/t/b');
+    system.writeFile('/t/a/deep/file', 'one');
+    system.writeFile('/t/b/file', 'two');
+    fs = system.getMounts().find(m => m.path === '/t')!.filesystem;
+  });
+
+  it('reuses directories nothing changed in, without walking them again', () => {
+    const first = system.createSnapshot('/t', 'first');
+    system.writeFile('/t/b/file', 'changed');
+    const second = system.createSnapshot('/t', 'second');
+
+    expect(frozen(second.root, '/a')).toBe(frozen(first.root, '/a'));
+    expect(frozen(second.root, '/b')).not.toBe(frozen(first.root, '/b'));
+    expect(fs.frozenDirectories.get(fs.lookup('/a') as DirectoryNode)).toBe(frozen(first.root, '/a'));
+  });
+
+  it('sees changes to content, permissions and names deep in a reused tree', () => {
+    system.createSnapshot('/t', 'first');
+    system.writeFile('/t/a/deep/file', 'changed');
+    system.createSnapshot('/t', 'second');
+    system.chmod('/t/a/deep', 0o700);
+    system.createSnapshot('/t', 'third');
+    system.move('/t/a/deep/file', '/t/b/moved');
+    system.createSnapshot('/t', 'fourth');
+
+    expect(system.diffSnapshot('/t', 'first', 'second')).toEqual([{ change: 'M', path: '/t/a/deep/file' }]);
+    expect(system.diffSnapshot('/t', 'second', 'third')).toEqual([{ change: 'M', path: '/t/a/deep' }]);
+    expect(system.diffSnapshot('/t', 'third', 'fourth')).toEqual(expect.arrayContaining([
+      { change: '-', path: '/t/a/deep/file' },
+      { change: '+', path: '/t/b/moved' }
+    ]));
+  });
+
+  it('sees a change made through another hard link', () => {
+    system.link('/t/a/deep/file', '/t/b/link');
+    system.createSnapshot('/t', 'first');
+    system.writeFile('/t/b/link', 'changed');
+    system.createSnapshot('/t', 'second');
+
+    expect(system.diffSnapshot('/t', 'first', 'second')).toEqual(expect.arrayContaining([
+      { change: 'M', path: '/t/a/deep/file' },
+      { change: 'M', path: '/t/b/link' }
+    ]));
+  });
+
+  it('lists changes to the live tree since a snapshot', () => {
+    system.createSnapshot('/t', 'first');
+    system.remove('/t/b/file');
+    system.writeFile('/t/new', 'three');
+
+    expect(system.diffSnapshot('/t', 'first')).toEqual(expect.arrayContaining([
+      { change: '-', path: '/t/b/file' },
+      { change: '+', path: '/t/new' }
+    ]));
+    expect(system.diffSnapshot('/t', 'first')).toHaveLength(2);
+  });
+
+  it('restores a snapshot, and snapshots taken after it see the restored tree', () => {
+    system.createSnapshot('/t', 'first');
+    system.writeFile('/t/a/deep/file', 'changed');
+    system.remove('/t/b/file');
+    system.restoreSnapshot('/t', 'first');
+
+    expect(system.readFile('/t/a/deep/file')).toBe('one');
+    expect(system.readFile('/t/b/file')).toBe('two');
+    expect(system.diffSnapshot('/t', 'first')).toEqual([]);
+
+    system.writeFile('/t/a/deep/file', 'again');
+    system.createSnapshot('/t', 'second');
+    expect(system.diffSnapshot('/t', 'first', 'second')).toEqual([{ change: 'M', path: '/t/a/deep/file' }]);
+  });
+});
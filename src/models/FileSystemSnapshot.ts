@@ -0,0 +1,420 @@
+import {
+  CharacterDevice,
+  DeviceNode,
+  DirectoryNode,
+  FileInode,
+  FileNode,
+  FileSystem,
+  FileSystemNode,
+  FileSystemNodeType,
+  SymlinkNode,
+  createDeviceNode,
+  createDirectoryNode,
+  createHardLinkNode,
+  createSymlinkNode
+} from './FileSystem';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { WHITEOUT_DEVICE } from './OverlayFileSystem';
+
+// Snapshots are frozen copies of a filesystem's tree. Nothing in them changes once
+// they're taken, so they share freely: file content is the live file's buffer (writes
+// replace a file's buffer instead of changing it), and a snapshot reuses every node of
+// the previous one that didn't change since. The filesystem remembers which live
+// directories are unchanged since they were frozen, so later snapshots only walk the
+// directories that changed and reuse the rest whole; the first one copies every node.
+// Directories holding hard-linked files are always walked, since a change made through
+// another link can't be traced back to them.
+
+// A file's content and attributes as they were, shared by every hard link to it
+export interface FrozenInode {
+  readonly content: Uint8Array;
+  readonly mode: number;
+  readonly uid: number;
+  readonly gid: number;
+  readonly atime: Date;
+  readonly mtime: Date;
+  readonly ctime: Date;
+}
+
+// Attributes of frozen nodes other than files, which keep theirs on the inode
+interface FrozenAttributes {
+  readonly name: string;
+  readonly createdAt: Date;
+  readonly mode: number;
+  readonly uid: number;
+  readonly gid: number;
+  readonly atime: Date;
+  readonly mtime: Date;
+  readonly ctime: Date;
+}
+
+// A directory as it was, with its entries by the key they're stored under
+export interface FrozenDirectory extends FrozenAttributes {
+  readonly type: FileSystemNodeType.DIRECTORY;
+  readonly children: ReadonlyMap<string, FrozenNode>;
+}
+
+// A node as it was. Devices are kept by number, so snapshots stay plain data that can
+// be saved along with the filesystem.
+export type FrozenNode =
+  | { readonly type: FileSystemNodeType.FILE, readonly name: string, readonly createdAt: Date, readonly inode: FrozenInode }
+  | FrozenAttributes & { readonly type: FileSystemNodeType.SYMLINK, readonly target: string }
+  | FrozenAttributes & { readonly type: FileSystemNodeType.DEVICE, readonly device: { major: number, minor: number } }
+  | FrozenDirectory;
+
+// A named snapshot of one filesystem
+export interface FileSystemSnapshot {
+  name: string;
+  createdAt: Date;
+  root: FrozenDirectory;
+}
+
+// One difference between two versions of a tree, as shown by snapshot diff
+export interface SnapshotChange {
+  change: '+' | '-' | 'M'; // Added, removed, or changed in content or attributes
+  path: string;            // Within the filesystem, e.g. "/docs/notes.txt"
+}
+
+// Space taken by a filesystem's snapshots. Content is counted once however many
+// snapshots hold it.
+export interface SnapshotUsage {
+  count: number;
+  shared: number;    // Bytes of snapshot content the live tree still uses
+  exclusive: number; // Bytes only snapshots hold, freed once they're all deleted
+}
+
+// Snapshot names, as with ZFS: letters, digits and _ - . :
+const SNAPSHOT_NAME = /^[A-Za-z0-9_.:-]+$/;
+
+const sameTime = (a: Date, b: Date) => a.getTime() === b.getTime();
+
+// Compare the attributes a node or inode has with a frozen copy of them
+function sameAttributes(live: FileSystemNode | FileInode, frozen: FrozenInode | FrozenAttributes): boolean {
+  return live.mode === frozen.mode && live.uid === frozen.uid && live.gid === frozen.gid
+    && sameTime(live.atime, frozen.atime) && sameTime(live.mtime, frozen.mtime) && sameTime(live.ctime, frozen.ctime);
+}
+
+// Copy a node's attributes for a frozen node
+function freezeAttributes(node: FileSystemNode): FrozenAttributes {
+  const { name, createdAt, mode, uid, gid, atime, mtime, ctime } = node;
+  return { name, createdAt, mode, uid, gid, atime, mtime, ctime };
+}
+
+// Freeze a filesystem's live tree. Directories unchanged since they were last frozen are
+// reused without walking them, and nodes that still match the base tree, typically the
+// previous snapshot, are taken from it as they are.
+function freezeTree(fs: FileSystem, base: FrozenDirectory | null): FrozenDirectory {
+  const inodes = new Map<FileInode, FrozenInode>();
+  const claimed = new Set<FrozenInode>(); // Base inodes already reused, so separate files don't end up linked
+
+  const freezeInode = (inode: FileInode, previous: FrozenInode | null): FrozenInode => {
+    let frozen = inodes.get(inode);
+    if (frozen) return frozen;
+
+    if (previous && !claimed.has(previous) && previous.content === inode.content && sameAttributes(inode, previous)) {
+      frozen = previous;
+      claimed.add(previous);
+    } else {
+      const { content, mode, uid, gid, atime, mtime, ctime } = inode;
+      frozen = { content, mode, uid, gid, atime, mtime, ctime };
+    }
+    inodes.set(inode, frozen);
+    return frozen;
+  };
+
+  const freezeNode = (node: FileSystemNode, previous: FrozenNode | undefined): FrozenNode => {
+    // Only the same entry, not a new one with the same name, can be reused
+    const base = previous?.type === node.type && previous.name === node.name && sameTime(previous.createdAt, node.createdAt)
+      ? previous
+      : undefined;
+
+    switch (node.type) {
+      case FileSystemNodeType.FILE: {
+        const inode = freezeInode((node as FileNode).inode, base?.type === FileSystemNodeType.FILE ? base.inode : null);
+        if (base?.type === FileSystemNodeType.FILE && base.inode === inode) {
+          return base;
+        }
+        return { type: FileSystemNodeType.FILE, name: node.name, createdAt: node.createdAt, inode };
+      }
+      case FileSystemNodeType.SYMLINK: {
+        const { target } = node as SymlinkNode;
+        if (base?.type === FileSystemNodeType.SYMLINK && base.target === target && sameAttributes(node, base)) {
+          return base;
+        }
+        return { ...freezeAttributes(node), type: FileSystemNodeType.SYMLINK, target };
+      }
+      case FileSystemNodeType.DEVICE: {
+        const { major, minor } = (node as DeviceNode).device;
+        if (base?.type === FileSystemNodeType.DEVICE && base.device.major === major && base.device.minor === minor
+          && sameAttributes(node, base)) {
+          return base;
+        }
+        return { ...freezeAttributes(node), type: FileSystemNodeType.DEVICE, device: { major, minor } };
+      }
+      default: {
+        const directory = node as DirectoryNode;
+        const cached = fs.frozenDirectories.get(directory);
+        if (cached) {
+          return cached;
+        }
+
+        const baseChildren = base?.type === FileSystemNodeType.DIRECTORY ? base.children : null;
+        const frozenChildren = new Map<string, FrozenNode>();
+        let unchanged = baseChildren !== null && baseChildren.size === directory.children.size;
+        let traceable = true; // Every change below will drop this directory's frozen copy
+        for (const [key, child] of directory.children) {
+          const frozen = freezeNode(child, baseChildren?.get(key));
+          frozenChildren.set(key, frozen);
+          unchanged = unchanged && frozen === baseChildren!.get(key);
+          traceable = traceable && (child.type === FileSystemNodeType.FILE
+            ? (child as FileNode).inode.nlink === 1
+            : child.type !== FileSystemNodeType.DIRECTORY || fs.frozenDirectories.has(child as DirectoryNode));
+        }
+
+        const frozen: FrozenDirectory = unchanged && sameAttributes(node, base as FrozenDirectory)
+          ? base as FrozenDirectory
+          : { ...freezeAttributes(node), type: FileSystemNodeType.DIRECTORY, children: frozenChildren };
+        if (traceable) {
+          fs.frozenDirectories.set(directory, frozen);
+        }
+        return frozen;
+      }
+    }
+  };
+
+  return freezeNode(fs.root, base ?? undefined) as FrozenDirectory;
+}
+
+// Find a snapshot of a filesystem by name, throwing ENOENT if there isn't one
+export function findSnapshot(fs: FileSystem, name: string): FileSystemSnapshot {
+  const snapshot = fs.snapshots.find(s => s.name === name);
+  if (!snapshot) {
+    throw new FileSystemError(ErrorCode.ENOENT, `@${name}`);
+  }
+  return snapshot;
+}
+
+// Take a snapshot of a filesystem's tree as it is now. Throws EINVAL for a bad name
+// and EEXIST if the filesystem already has a snapshot by that name.
+export function takeSnapshot(fs: FileSystem, name: string): FileSystemSnapshot {
+  if (!SNAPSHOT_NAME.test(name)) {
+    throw new FileSystemError(ErrorCode.EINVAL, `@${name}`);
+  }
+  if (fs.snapshots.some(s => s.name === name)) {
+    throw new FileSystemError(ErrorCode.EEXIST, `@${name}`);
+  }
+
+  const previous = fs.snapshots[fs.snapshots.length - 1];
+  const snapshot = { name, createdAt: new Date(), root: freezeTree(fs, previous?.root ?? null) };
+  fs.snapshots.push(snapshot);
+  fs.version++;
+  return snapshot;
+}
+
+// Delete a snapshot. Whatever only it held is freed.
+export function destroySnapshot(fs: FileSystem, name: string): void {
+  const snapshot = findSnapshot(fs, name);
+  fs.snapshots = fs.snapshots.filter(s => s !== snapshot);
+  fs.version++;
+}
+
+// Put a filesystem's tree back the way it was when a snapshot was taken. The live tree
+// gets new nodes and inodes, sharing content with the snapshot until it's written.
+// Device nodes get back the devices the filesystem has now; others are left out.
+// Later snapshots are kept.
+export function rollBackSnapshot(fs: FileSystem, name: string): void {
+  const snapshot = findSnapshot(fs, name);
+
+  const deviceKey = ({ major, minor }: { major: number, minor: number }) => `${major}:${minor}`;
+  const devices = new Map<string, CharacterDevice>([[deviceKey(WHITEOUT_DEVICE), WHITEOUT_DEVICE]]);
+  const collectDevices = (node: FileSystemNode) => {
+    if (node.type === FileSystemNodeType.DEVICE) {
+      const { device } = node as DeviceNode;
+      devices.set(deviceKey(device), device);
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
+      (node as DirectoryNode).children.forEach(collectDevices);
+    }
+  };
+  collectDevices(fs.root);
+
+  const inodes = new Map<FrozenInode, FileInode>();
+
+  const applyAttributes = (node: FileSystemNode, frozen: FrozenAttributes) => {
+    node.createdAt = frozen.createdAt;
+    node.atime = frozen.atime;
+    node.mtime = frozen.mtime;
+    node.ctime = frozen.ctime;
+    node.mode = frozen.mode;
+    node.uid = frozen.uid;
+    node.gid = frozen.gid;
+  };
+
+  const thawNode = (frozen: FrozenNode, parent: DirectoryNode): FileSystemNode | null => {
+    switch (frozen.type) {
+      case FileSystemNodeType.FILE: {
+        let inode = inodes.get(frozen.inode);
+        if (!inode) {
+          inode = { ...frozen.inode, nlink: 0 };
+          inodes.set(frozen.inode, inode);
+        }
+        const node = createHardLinkNode(frozen.name, parent, inode);
+        node.createdAt = frozen.createdAt;
+        return node;
+      }
+      case FileSystemNodeType.SYMLINK: {
+        const node = createSymlinkNode(frozen.name, parent, frozen.target);
+        applyAttributes(node, frozen);
+        return node;
+      }
+      case FileSystemNodeType.DEVICE: {
+        const device = devices.get(deviceKey(frozen.device));
+        if (!device) return null;
+        const node = createDeviceNode(frozen.name, parent, device);
+        applyAttributes(node, frozen);
+        return node;
+      }
+      default: {
+        const node = createDirectoryNode(frozen.name, parent);
+        thawChildren(node, frozen);
+        applyAttributes(node, frozen);
+        return node;
+      }
+    }
+  };
+
+  const thawChildren = (directory: DirectoryNode, frozen: FrozenDirectory) => {
+    directory.children.clear();
+    for (const [key, child] of frozen.children) {
+      const node = thawNode(child, directory);
+      if (node) {
+        directory.children.set(key, node);
+      }
+    }
+  };
+
+  thawChildren(fs.root, snapshot.root);
+  applyAttributes(fs.root, { ...snapshot.root, name: fs.root.name });
+  fs.frozenDirectories.delete(fs.root); // Everything below it is new
+  fs.version++;
+}
+
+// Check whether two frozen files differ in anything diff reports: content, permissions,
+// owner or modification time
+function filesDiffer(a: FrozenInode, b: FrozenInode): boolean {
+  if (a === b) return false;
+  if (a.mode !== b.mode || a.uid !== b.uid || a.gid !== b.gid || !sameTime(a.mtime, b.mtime)) return true;
+  if (a.content === b.content) return false;
+  return a.content.length !== b.content.length || a.content.some((byte, i) => byte !== b.content[i]);
+}
+
+// List what changed between a snapshot and a later one, or the live tree when no other
+// snapshot is named. Removed and added directories are listed with their contents.
+// Access times are ignored, as is a directory's modification time, since its entries
+// are listed themselves.
+export function compareSnapshot(fs: FileSystem, name: string, otherName: string | null = null): SnapshotChange[] {
+  const from = findSnapshot(fs, name).root;
+  const to = otherName !== null ? findSnapshot(fs, otherName).root : freezeTree(fs, from);
+  const changes: SnapshotChange[] = [];
+  const childPath = (path: string, name: string) => `${path === '/' ? '' : path}/${name}`;
+
+  const listTree = (change: '+' | '-', path: string, node: FrozenNode) => {
+    changes.push({ change, path });
+    if (node.type === FileSystemNodeType.DIRECTORY) {
+      node.children.forEach(child => listTree(change, childPath(path, child.name), child));
+    }
+  };
+
+  const compareNodes = (path: string, a: FrozenNode, b: FrozenNode) => {
+    if (a === b) return; // Shared, so nothing below changed
+    if (a.type !== b.type) {
+      listTree('-', path, a);
+      listTree('+', path, b);
+      return;
+    }
+
+    switch (a.type) {
+      case FileSystemNodeType.FILE: {
+        const other = b as typeof a;
+        if (filesDiffer(a.inode, other.inode)) {
+          changes.push({ change: 'M', path });
+        }
+        break;
+      }
+      case FileSystemNodeType.SYMLINK: {
+        const other = b as typeof a;
+        if (a.target !== other.target || a.uid !== other.uid || a.gid !== other.gid) {
+          changes.push({ change: 'M', path });
+        }
+        break;
+      }
+      case FileSystemNodeType.DEVICE: {
+        const other = b as typeof a;
+        if (a.device.major !== other.device.major || a.device.minor !== other.device.minor
+          || a.mode !== other.mode || a.uid !== other.uid || a.gid !== other.gid) {
+          changes.push({ change: 'M', path });
+        }
+        break;
+      }
+      default: {
+        const other = b as FrozenDirectory;
+        if (a.mode !== other.mode || a.uid !== other.uid || a.gid !== other.gid) {
+          changes.push({ change: 'M', path });
+        }
+        const bChildren = other.children;
+        const keys = new Set([...a.children.keys(), ...bChildren.keys()]);
+        for (const key of Array.from(keys).sort()) {
+          const before = a.children.get(key);
+          const after = bChildren.get(key);
+          if (before && after) {
+            compareNodes(childPath(path, after.name), before, after);
+          } else if (before) {
+            listTree('-', childPath(path, before.name), before);
+          } else if (after) {
+            listTree('+', childPath(path, after.name), after);
+          }
+        }
+      }
+    }
+  };
+
+  compareNodes('/', from, to);
+  return changes;
+}
+
+// Count the snapshots of a filesystem and the content they hold, split into what the
+// live tree shares with them and what only they keep
+export function getSnapshotUsage(fs: FileSystem): SnapshotUsage {
+  const live = new Set<Uint8Array>();
+  const collectLive = (node: FileSystemNode) => {
+    if (node.type === FileSystemNodeType.FILE) {
+      live.add((node as FileNode).content);
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
+      (node as DirectoryNode).children.forEach(collectLive);
+    }
+  };
+  collectLive(fs.root);
+
+  // Subtrees shared between snapshots are only visited once
+  const visited = new Set<FrozenNode>();
+  const contents = new Set<Uint8Array>();
+  const collectFrozen = (node: FrozenNode) => {
+    if (visited.has(node)) return;
+    visited.add(node);
+    if (node.type === FileSystemNodeType.FILE) {
+      contents.add(node.inode.content);
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
+      node.children.forEach(collectFrozen);
+    }
+  };
+  fs.snapshots.forEach(snapshot => collectFrozen(snapshot.root));
+
+  const usage: SnapshotUsage = { count: fs.snapshots.length, shared: 0, exclusive: 0 };
+  contents.forEach(content => {
+    if (live.has(content)) {
+      usage.shared += content.byteLength;
+    } else {
+      usage.exclusive += content.byteLength;
+    }
+  });
+  return usage;
+}
@@ -0,0 +1,89 @@
+import { FileSystemOptions, parseFileSystemOptions } from './FileSystemDriver';
+
+export const FSTAB_PATH = '/etc/fstab';
+
+// Written to /etc/fstab on a fresh root filesystem
+export const DEFAULT_FSTAB = `# /etc/fstab: filesystems mounted at startup and by mount -a
+#
+# <file system> <mount point> <type> <options> <dump> <pass>
+devfs /dev devfs defaults 0 0
+`;
+
+// Options that only mean something in fstab, rather than to mount itself
+export const FSTAB_ONLY_OPTIONS = ['auto', 'noauto', 'nofail'];
+
+// One filesystem listed in /etc/fstab
+export interface FstabEntry {
+  line: number;       // Line number in the file, counting from 1
+  source: string;     // What to mount: a device name, or the directory for bind mounts
+  mountPoint: string;
+  fsType: string;
+  options: FileSystemOptions;
+  dump: number;       // Whether dump(8) backs it up; kept for completeness
+  pass: number;       // fsck(8) order; kept for completeness
+}
+
+// A problem with one line of /etc/fstab
+export interface FstabError {
+  line: number;
+  message: string;
+}
+
+// Render an error the way compilers report them, e.g. "/etc/fstab:3: too many fields"
+export function formatFstabError(error: FstabError): string {
+  return `${FSTAB_PATH}:${error.line}: ${error.message}`;
+}
+
+// Decode the octal escapes fstab uses for awkward characters, e.g. \040 for a space
+function unescapeField(field: string): string {
+  return field.replace(/\\([0-7]{3})/g, (_, octal: string) => String.fromCharCode(parseInt(octal, 8)));
+}
+
+// Parse fstab text: one "<file system> <mount point> <type> [options] [dump] [pass]" line
+// per filesystem, with blank lines and # comments ignored. Lines with errors are left out
+// of the entries and reported with their line numbers.
+export function parseFstab(text: string): { entries: FstabEntry[], errors: FstabError[] } {
+  const entries: FstabEntry[] = [];
+  const errors: FstabError[] = [];
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = index + 1;
+    const trimmed = rawLine.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      return;
+    }
+
+    const fields = trimmed.split(/\s+/).map(unescapeField);
+    if (fields.length < 3) {
+      errors.push({ line, message: 'expected <file system> <mount point> <type> [options] [dump] [pass]' });
+      return;
+    }
+    if (fields.length > 6) {
+      errors.push({ line, message: 'too many fields' });
+      return;
+    }
+
+    const [source, mountPoint, fsType, options = 'defaults', dump = '0', pass = '0'] = fields;
+    if (!mountPoint.startsWith('/')) {
+      errors.push({ line, message: `mount point '${mountPoint}' is not an absolute path` });
+      return;
+    }
+    const badNumber = [['dump', dump], ['pass', pass]].find(([, value]) => !/^\d+$/.test(value));
+    if (badNumber) {
+      errors.push({ line, message: `${badNumber[0]} field '${badNumber[1]}' is not a number` });
+      return;
+    }
+
+    entries.push({
+      line,
+      source,
+      mountPoint,
+      fsType,
+      options: parseFileSystemOptions(options),
+      dump: Number(dump),
+      pass: Number(pass)
+    });
+  });
+
+  return { entries, errors };
+}
@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { FileSystemNodeType } from './FileSystem';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { MountManager } from './MountManager';
+import { Credentials, R_OK, W_OK, X_OK } from './Permissions';
+
+const ALICE: Credentials = { uid: 1000, gid: 1000, groups: [1000] };
+const BOB: Credentials = { uid: 1001, gid: 1001, groups: [1001] };
+
+// Run an operation and return the code of the FileSystemError it throws
+function errorCode(operation: () => void): ErrorCode | undefined {
+  try {
+    operation();
+  } catch (error) {
+    if (error instanceof FileSystemError) {
+      return error.code;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('MountManager permissions across mount points', () => {
+  let system: MountManager;
+
+  // /home/alice is private to alice, with a tmpfs mounted inside it
+  beforeEach(() => {
+    system = new MountManager();
+    system.mkdirRecursive('/home/alice');
+    system.chown('/home/alice', ALICE.uid, ALICE.gid);
+    system.chmod('/home/alice', 0o700);
+    system.mount('tmpfs', '/home/alice/mnt');
+    system.writeFile('/home/alice/mnt/secret', 'hidden');
+    system.chmod('/home/alice/mnt/secret', 0o644);
+  });
+
+  it('needs search permission on the directories above a mount point', () => {
+    system.runAs(BOB, () => {
+      expect(errorCode(() => system.readFile('/home/alice/mnt/secret'))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.stat('/home/alice/mnt'))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.lstat('/home/alice/mnt'))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.listDirectory('/home/alice/mnt'))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.writeFile('/home/alice/mnt/other', 'x'))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.setCurrentDirectory('/home/alice/mnt'))).toBe(ErrorCode.EACCES);
+    });
+  });
+
+  it('checks the traversal when a symbolic link leads into the mount', () => {
+    system.symlink('/home/alice/mnt', '/tmp-link');
+    system.runAs(BOB, () => {
+      expect(errorCode(() => system.readFile('/tmp-link/secret'))).toBe(ErrorCode.EACCES);
+    });
+  });
+
+  it('lets users who can search every directory on the way through', () => {
+    system.runAs(ALICE, () => {
+      expect(system.readFile('/home/alice/mnt/secret')).toBe('hidden');
+    });
+
+    system.chmod('/home/alice', 0o711);
+    system.runAs(BOB, () => {
+      expect(system.readFile('/home/alice/mnt/secret')).toBe('hidden');
+    });
+  });
+});
+
+describe('MountManager mount options', () => {
+  let system: MountManager;
+
+  // A setuid root script on each of two tmpfs mounts, one of them nosuid and noexec
+  beforeEach(() => {
+    system = new MountManager();
+    system.mount('tmpfs', '/plain');
+    system.mount('tmpfs', '/locked', { nosuid: '', noexec: '' });
+    for (const dir of ['/plain', '/locked']) {
+      system.writeFile(`${dir}/script`, 'whoami');
+      system.chmod(`${dir}/script`, 0o4755);
+    }
+  });
+
+  it('lists nosuid and noexec with the other options', () => {
+    const options = (path: string) => system.getMounts().find(m => m.path === path)?.options;
+    expect(options('/locked')).toMatchObject({ nosuid: true, noexec: true });
+
+    system.remount('/locked', { suid: '', exec: '' });
+    expect(options('/locked')).toMatchObject({ nosuid: false, noexec: false });
+  });
+
+  it('refuses to execute anything on a noexec mount', () => {
+    system.runAs(ALICE, () => {
+      expect(errorCode(() => system.access('/locked/script', X_OK))).toBe(ErrorCode.EACCES);
+      expect(errorCode(() => system.getExecCredentials('/locked/script'))).toBe(ErrorCode.EACCES);
+      expect(() => system.access('/locked/script', R_OK)).not.toThrow();
+    });
+  });
+
+  it('runs setuid files as their owner unless the mount is nosuid', () => {
+    system.runAs(ALICE, () => {
+      expect(system.getExecCredentials('/plain/script').uid).toBe(0);
+    });
+
+    system.remount('/locked', { exec: '' });
+    system.runAs(ALICE, () => {
+      expect(system.getExecCredentials('/locked/script')).toEqual(ALICE);
+    });
+  });
+
+  it('needs an execute bit, even for root', () => {
+    system.chmod('/plain/script', 0o644);
+    expect(errorCode(() => system.getExecCredentials('/plain/script'))).toBe(ErrorCode.EACCES);
+    expect(errorCode(() => system.getExecCredentials('/plain'))).toBe(ErrorCode.EACCES);
+  });
+
+  it('fails every change to a read-only mount with EROFS', () => {
+    system.remount('/plain', { ro: '' });
+
+    expect(errorCode(() => system.writeFile('/plain/script', 'x'))).toBe(ErrorCode.EROFS);
+    expect(errorCode(() => system.createFile('/plain/new'))).toBe(ErrorCode.EROFS);
+    expect(errorCode(() => system.mkdir('/plain/dir'))).toBe(ErrorCode.EROFS);
+    expect(errorCode(() => system.remove('/plain/script'))).toBe(ErrorCode.EROFS);
+    expect(errorCode(() => system.chmod('/plain/script', 0o755))).toBe(ErrorCode.EROFS);
+    expect(errorCode(() => system.access('/plain/script', W_OK))).toBe(ErrorCode.EROFS);
+    expect(system.readFile('/plain/script')).toBe('whoami');
+  });
+});
+
+describe('MountManager unmount', () => {
+  let system: MountManager;
+
+  // A tmpfs at /t with a file, and a second one mounted inside it
+  beforeEach(() => {
+    system = new MountManager();
+    system.mount('tmpfs', '/t');
+    system.writeFile('/t/file', 'data');
+    system.mkdir('/t/dir');
+    system.mount('tmpfs', '/t/inner');
+  });
+
+  it('refuses while something is mounted below unless recursive', () => {
+    expect(errorCode(() => system.unmount('/t'))).toBe(ErrorCode.EBUSY);
+
+    system.unmount('/t', { recursive: true });
+    expect(system.getMounts().map(m => m.path)).not.toContain('/t/inner');
+    expect(system.exists('/t/file')).toBe(false);
+  });
+
+  it('refuses while the working directory or an open file is inside', () => {
+    system.unmount('/t/inner');
+
+    system.setCurrentDirectory('/t/dir');
+    expect(errorCode(() => system.unmount('/t'))).toBe(ErrorCode.EBUSY);
+    system.setCurrentDirectory('/');
+
+    const { fd } = system.open('/t/file');
+    expect(errorCode(() => system.unmount('/t'))).toBe(ErrorCode.EBUSY);
+    system.close(fd);
+
+    system.unmount('/t');
+    expect(system.exists('/t/file')).toBe(false);
+  });
+
+  it('detaches straight away when lazy, keeping open files readable', () => {
+    system.getUserManager().addUser('alice');
+    system.setCurrentDirectory('/t/dir');
+    system.switchUser('alice');
+    system.setCurrentDirectory('/t');
+    const { fd } = system.open('/t/file');
+
+    system.runAs({ uid: 0, gid: 0, groups: [0] }, () => system.unmount('/t', { lazy: true }));
+
+    expect(system.getMounts().map(m => m.path)).not.toContain('/t');
+    expect(new TextDecoder().decode(system.readOpenFile(fd))).toBe('data');
+    expect(system.getCurrentDirectory()).toBe('/t');
+    system.exitSession();
+    expect(system.getCurrentDirectory()).toBe('/t');
+  });
+});
+
+describe('MountManager symbolic links', () => {
+  let system: MountManager;
+
+  // A tmpfs at /t
+  beforeEach(() => {
+    system = new MountManager();
+    system.mount('tmpfs', '/t');
+    system.writeFile('/t/file', 'data');
+  });
+
+  it('fails with ELOOP on a link that leads back to itself', () => {
+    system.symlink('/t/b', '/t/a');
+    system.symlink('a', '/t/b');
+
+    expect(errorCode(() => system.readFile('/t/a'))).toBe(ErrorCode.ELOOP);
+    expect(errorCode(() => system.stat('/t/b'))).toBe(ErrorCode.ELOOP);
+    expect(errorCode(() => system.listDirectory('/t/a/dir'))).toBe(ErrorCode.ELOOP);
+    expect(system.readlink('/t/a')).toBe('/t/b');
+  });
+
+  it('detects loops that cross mount points', () => {
+    system.symlink('/t/link', '/outside');
+    system.symlink('/outside', '/t/link');
+
+    expect(errorCode(() => system.readFile('/outside'))).toBe(ErrorCode.ELOOP);
+    expect(errorCode(() => system.setCurrentDirectory('/t/link'))).toBe(ErrorCode.ELOOP);
+  });
+
+  it('follows a long chain of links that ends somewhere', () => {
+    system.symlink('file', '/t/link0');
+    for (let i = 1; i < 30; i++) {
+      system.symlink(`link${i - 1}`, `/t/link${i}`);
+    }
+
+    expect(system.readFile('/t/link29')).toBe('data');
+  });
+});
+
+describe('MountManager overlay', () => {
+  let system: MountManager;
+
+  // The names listed in a directory, sorted
+  const names = (path: string) => system.listDirectory(path).map(node => node.name).sort();
+
+  // An overlay at /merged of a lower directory with a file and a subdirectory, and an empty upper one
+  beforeEach(() => {
+    system = new MountManager();
+    system.mkdirRecursive('/lower/dir');
+    system.writeFile('/lower/file', 'lower');
+    system.writeFile('/lower/dir/inner', 'inner');
+    system.mkdir('/upper');
+    system.mount('overlay', '/merged', { lowerdir: '/lower', upperdir: '/upper' });
+  });
+
+  it('copies a lower file up when it is changed, leaving the lower layer alone', () => {
+    expect(system.readFile('/merged/file')).toBe('lower');
+    expect(system.exists('/upper/file')).toBe(false);
+
+    system.chmod('/merged/dir/inner', 0o600);
+    system.writeFile('/merged/file', 'upper');
+
+    expect(system.readFile('/merged/file')).toBe('upper');
+    expect(system.readFile('/upper/file')).toBe('upper');
+    expect(system.readFile('/lower/file')).toBe('lower');
+    expect(system.stat('/upper/dir/inner').mode & 0o777).toBe(0o600);
+    expect(system.stat('/lower/dir/inner').mode & 0o777).not.toBe(0o600);
+  });
+
+  it('hides removed lower entries behind whiteouts', () => {
+    system.remove('/merged/file');
+
+    expect(system.exists('/merged/file')).toBe(false);
+    expect(names('/merged')).toEqual(['dir']);
+    expect(system.lstat('/upper/file').type).toBe(FileSystemNodeType.DEVICE);
+    expect(system.readFile('/lower/file')).toBe('lower');
+
+    system.writeFile('/merged/file', 'again');
+    expect(system.readFile('/merged/file')).toBe('again');
+    expect(system.readFile('/lower/file')).toBe('lower');
+  });
+
+  it('keeps the old contents of a directory made again in place of a removed one hidden', () => {
+    system.remove('/merged/dir/inner');
+    system.rmdir('/merged/dir');
+    expect(names('/merged')).toEqual(['file']);
+
+    system.mkdir('/merged/dir');
+    expect(names('/merged/dir')).toEqual([]);
+    expect(names('/lower/dir')).toEqual(['inner']);
+  });
+});
@@ -1,101 +1,535 @@
-
-import { FileSystem, FileSystemNode, FileSystemNodeType } from './FileSystem';
+import { ArchiveError } from './Archive';
+import { FileData } from './FileContent';
+import {
+  DirectoryNode,
+  FileSystem,
+  FileSystemNode,
+  FileSystemNodeType,
+  MAX_SYMLINK_DEPTH,
+  SymlinkNode
+} from './FileSystem';
+import {
+  FileSystemDriverRegistry,
+  FileSystemOptions,
+  SystemInfo,
+  rejectUnknownOptions
+} from './FileSystemDriver';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import {
+  FileSystemSnapshot,
+  SnapshotChange,
+  compareSnapshot,
+  destroySnapshot,
+  rollBackSnapshot,
+  takeSnapshot
+} from './FileSystemSnapshot';
+import {
+  DEFAULT_FSTAB,
+  FSTAB_ONLY_OPTIONS,
+  FSTAB_PATH,
+  FstabEntry,
+  FstabError,
+  parseFstab
+} from './Fstab';
+import { DEFAULT_MOUNT_OPTIONS, MountOptions, applyMountOptions } from './MountOptions';
+import { OverlayFileSystem, WHITEOUT_DEVICE, isWhiteout } from './OverlayFileSystem';
+import {
+  Credentials,
+  ProcessContext,
+  ROOT_CREDENTIALS,
+  R_OK,
+  S_ISGID,
+  S_ISUID,
+  W_OK,
+  X_OK,
+  createProcessContext
+} from './Permissions';
+import { SerializedFileSystem, SerializedSystem, restoreFileSystem } from './Serialization';
+import { UserEntry, UserManager } from './UserManager';
+import { ZipFileSystem } from './ZipFileSystem';
 
 export interface MountPoint {
   path: string;        // Path where the filesystem is mounted
   filesystem: FileSystem;
+  root: string;        // Directory of the filesystem shown at path: '/' unless bind mounted
+  options: MountOptions;
+}
+
+// Options for copying files and directory trees
+export interface CopyOptions {
+  recursive?: boolean; // Copy directories and everything below them (cp -r)
+  preserve?: boolean;  // Keep mode, ownership and times, and copy symbolic links as links (cp -a)
+  noClobber?: boolean; // Never overwrite existing files (cp -n)
+  update?: boolean;    // Only overwrite files older than the source (cp -u)
+}
+
+// Join a directory and a path relative to it ('/' for the directory itself), e.g. to
+// find an overlay entry within one of its layers
+const joinPath = (directory: string, relativePath: string) =>
+  relativePath === '/' ? directory : `${directory === '/' ? '' : directory}${relativePath}`;
+
+// Options for unmounting
+export interface UnmountOptions {
+  lazy?: boolean;      // Detach now even if busy (umount -l); open files keep working,
+                       // but working directories inside move out to the mount point
+  recursive?: boolean; // Also unmount everything mounted below (umount -R)
+}
+
+// A file opened for reading. While it's open, its mount can't be unmounted.
+export interface FileHandle {
+  fd: number;             // Descriptor number, unique among open files
+  path: string;           // Path the file was opened at, with symbolic links resolved
+  mount: MountPoint;      // Mount the file is on
+  filesystem: FileSystem; // Filesystem holding the file, usable even after a lazy unmount
+  relativePath: string;   // Path within the filesystem
+}
+
+// What mount -a did: the fstab entries it mounted, and the lines it couldn't use
+export interface MountAllResult {
+  mounted: FstabEntry[];
+  errors: FstabError[];
+}
+
+// One entry in the merged view of all mounted filesystems, as shown by the file explorer
+export interface FileTreeNode {
+  name: string;          // Entry name ('' for /)
+  path: string;          // Absolute path
+  node: FileSystemNode;  // The node found here; at a mount point, the mounted directory
+  mount: MountPoint;     // Mount the node belongs to
+  isMountPoint: boolean; // True where a filesystem is mounted
+  children: FileTreeNode[]; // Entries of a directory; empty for anything else
+}
+
+// A shell session suspended by su, restored by exit
+interface Session {
+  credentials: Credentials;
+  directory: string;
 }
 
-export class MountManager {
+export class MountManager implements SystemInfo {
   private mounts: MountPoint[] = [];
   private rootFS: FileSystem;
   private currentDirectory: string = '/';
+  private physicalDirectory: string = '/'; // currentDirectory with symbolic links resolved
+  private context: ProcessContext = createProcessContext();
+  private sessions: Session[] = [];
+  private userManager: UserManager;
+  private drivers: FileSystemDriverRegistry; // Filesystem types that can be mounted
+  private bootTime: number = Date.now();
+  private commandHistory: string[] = [];
+  private terminalWriter: ((text: string) => void) | null = null; // Receives /dev/tty output
+  private openFiles = new Map<number, FileHandle>();
+  private nextFd = 3; // 0-2 are the terminal's standard streams
+  private fstabErrors: FstabError[] = []; // Problems found applying /etc/fstab at startup
+
+  constructor(drivers: FileSystemDriverRegistry = new FileSystemDriverRegistry()) {
+    this.drivers = drivers;
 
-  constructor() {
     // Create the root filesystem
-    this.rootFS = new FileSystem('root', 'ext4');
+    this.rootFS = this.drivers.get('ext4').createFileSystem('root', this.context, {}, this);
     
     // Add the root filesystem as the first mount
     this.mounts.push({
       path: '/',
-      filesystem: this.rootFS
+      filesystem: this.rootFS,
+      root: '/',
+      options: DEFAULT_MOUNT_OPTIONS
+    });
+
+    // Set up the user database in /etc
+    this.userManager = new UserManager(this);
+
+    // Mount what /etc/fstab lists, writing the default one (devfs at /dev) on a fresh filesystem
+    this.fstabErrors = this.runAs(ROOT_CREDENTIALS, () => {
+      if (!this.exists(FSTAB_PATH)) {
+        this.writeFile(FSTAB_PATH, DEFAULT_FSTAB);
+      }
+      return this.mountAll().errors;
     });
   }
 
+  // Get the problems found applying /etc/fstab at startup, for the terminal to report
+  getFstabErrors(): FstabError[] {
+    return this.fstabErrors;
+  }
+
   // Get all mount points
   getMounts(): MountPoint[] {
     return [...this.mounts];
   }
 
+  // Get the registry of filesystem types, e.g. to register a custom driver
+  getDriverRegistry(): FileSystemDriverRegistry {
+    return this.drivers;
+  }
+
+  // Seconds since this system was created
+  getUptime(): number {
+    return (Date.now() - this.bootTime) / 1000;
+  }
+
+  // Record a command line typed into the terminal
+  addToHistory(command: string): void {
+    this.commandHistory.push(command);
+  }
+
+  // Command lines typed so far, oldest first
+  getCommandHistory(): string[] {
+    return [...this.commandHistory];
+  }
+
+  // Set where output written to /dev/tty goes, or null to discard it
+  setTerminalWriter(writer: ((text: string) => void) | null): void {
+    this.terminalWriter = writer;
+  }
+
+  // Show text in the terminal, as if written to /dev/tty
+  writeToTerminal(text: string): void {
+    this.terminalWriter?.(text);
+  }
+
   // Get the current working directory
   getCurrentDirectory(): string {
     return this.currentDirectory;
   }
 
   // Set the current working directory
-  setCurrentDirectory(newDir: string): boolean {
+  setCurrentDirectory(newDir: string): void {
     // Normalize the path
     const normalized = this.normalizePath(newDir);
     
     // Check if the directory exists
     const { fs, relativePath } = this.findResponsibleFilesystem(normalized);
-    const node = fs.findNode(relativePath, '/');
+    const node = fs.lookup(relativePath, '/');
     
-    if (!node || node.type !== FileSystemNodeType.DIRECTORY) {
-      return false;
+    if (node.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, normalized);
     }
+
+    // Entering a directory requires search permission
+    fs.access(relativePath, X_OK);
     
-    this.currentDirectory = normalized;
+    this.changeDirectory(normalized);
+  }
+
+  // Switch the working directory, remembering where it really is. The physical path is
+  // resolved now, so later reads of /proc/self/cwd don't have to resolve it through itself.
+  private changeDirectory(directory: string): void {
+    this.currentDirectory = directory;
+    try {
+      this.physicalDirectory = this.resolveSymlinks(directory, true);
+    } catch {
+      this.physicalDirectory = directory;
+    }
+  }
+
+  // Get the current working directory with all symbolic links resolved
+  getPhysicalDirectory(): string {
+    return this.physicalDirectory;
+  }
+
+  // Get the credentials commands currently run as
+  getCredentials(): Credentials {
+    return this.context.credentials;
+  }
+
+  // Get the user and group database
+  getUserManager(): UserManager {
+    return this.userManager;
+  }
+
+  // Get the user commands currently run as
+  getCurrentUser(): UserEntry | null {
+    return this.userManager.findUser(this.context.credentials.uid);
+  }
+
+  // Get the current user's home directory
+  getHomeDirectory(): string {
+    return this.getCurrentUser()?.home ?? '/';
+  }
+
+  // Run an operation with other credentials, restoring the current ones afterwards. A
+  // session the operation starts (sudo su) stays open instead, and exit from it returns
+  // to the current credentials.
+  runAs<T>(credentials: Credentials, operation: () => T): T {
+    const saved = this.context.credentials;
+    const sessionCount = this.sessions.length;
+    this.context.credentials = { ...credentials, groups: [...credentials.groups] };
+    try {
+      return operation();
+    } finally {
+      if (this.sessions.length > sessionCount) {
+        this.sessions[sessionCount].credentials = saved;
+      } else {
+        this.context.credentials = saved;
+      }
+    }
+  }
+
+  // Start a nested session as another user (su). A login session starts in the user's home.
+  switchUser(nameOrId: string | number, login: boolean = false): void {
+    const user = this.userManager.getUser(nameOrId);
+    const credentials = this.userManager.getCredentials(user);
+
+    this.sessions.push({
+      credentials: this.context.credentials,
+      directory: this.currentDirectory
+    });
+    this.context.credentials = credentials;
+
+    if (login) {
+      try {
+        this.setCurrentDirectory(user.home);
+      } catch {
+        this.changeDirectory('/');
+      }
+    }
+  }
+
+  // End the current su session. Returns false when there is no session to return to.
+  exitSession(): boolean {
+    const session = this.sessions.pop();
+    if (!session) {
+      return false;
+    }
+
+    this.context.credentials = session.credentials;
+    this.changeDirectory(session.directory);
     return true;
   }
 
-  // Get the file system tree starting from the root
-  getFileSystemTree(): FileSystemNode {
-    // Get the root node from the root filesystem
-    const rootNode = this.rootFS.findNode('/') as FileSystemNode;
-    
-    // Process mounted filesystems recursively
-    const processedTree = this.processMountPoints(rootNode, '/');
-    
-    return processedTree;
+  // Get the file mode creation mask
+  getUmask(): number {
+    return this.context.umask;
   }
 
-  // Process mount points recursively to create a unified file system tree
-  private processMountPoints(node: FileSystemNode, path: string): FileSystemNode {
-    // If node is not a directory, it can't have mount points
-    if (node.type !== FileSystemNodeType.DIRECTORY) {
-      return node;
+  // Set the file mode creation mask
+  setUmask(mask: number): void {
+    this.context.umask = mask & 0o777;
+  }
+
+  // Get the mount table and shell state as plain data, naming filesystems by the given IDs
+  saveState(idOf: (fs: FileSystem) => number): SerializedSystem {
+    return {
+      mounts: this.mounts.map(m => ({
+        path: m.path,
+        filesystem: idOf(m.filesystem),
+        root: m.root,
+        options: m.options
+      })),
+      directory: this.currentDirectory,
+      credentials: this.context.credentials,
+      umask: this.context.umask,
+      sessions: this.sessions.map(session => ({ ...session }))
+    };
+  }
+
+  // Replace every mount and the shell state with saved ones. Each filesystem is created
+  // again by its driver, with the driver options it was mounted with, and then given its
+  // saved tree. Returns the new filesystems by ID.
+  restoreState(state: SerializedSystem, filesystems: Record<number, SerializedFileSystem>): Map<number, FileSystem> {
+    if (state.mounts[0]?.path !== '/') {
+      throw new FileSystemError(ErrorCode.EINVAL, '/');
     }
 
-    // Create a copy of the directory node
-    const processedNode = { ...node };
-    
-    // For each mount point under this path
-    for (const mount of this.mounts) {
-      // Skip the root mount as it's already processed
-      if (mount.path === '/') continue;
-      
-      // Check if this mount is directly under the current path
-      if (mount.path === path || mount.path.startsWith(path + '/')) {
-        const relativeMountPath = mount.path.substring(path.length === 1 ? 1 : path.length + 1);
-        const segments = relativeMountPath.split('/');
-        
-        // If this is a direct mount point
-        if (segments[0] === '') {
-          // Get the root of the mounted filesystem
-          const mountedRoot = mount.filesystem.findNode('/');
-          if (mountedRoot) {
-            return mountedRoot;
-          }
+    const created = new Map<number, FileSystem>();
+    const mounts = state.mounts.map(saved => {
+      let filesystem = created.get(saved.filesystem);
+      if (!filesystem) {
+        const data = filesystems[saved.filesystem];
+        if (!data) {
+          throw new FileSystemError(ErrorCode.EINVAL, saved.path);
         }
+        // Bind mounts carry no driver options, so take them from a mount that has some
+        const options = state.mounts
+          .filter(m => m.filesystem === saved.filesystem)
+          .map(m => m.options.driverOptions)
+          .find(driverOptions => Object.keys(driverOptions).length > 0) ?? {};
+        filesystem = this.drivers.get(data.fsType).createFileSystem(data.name, this.context, options, this);
+        restoreFileSystem(filesystem, data);
+        created.set(saved.filesystem, filesystem);
       }
+      return { path: saved.path, filesystem, root: saved.root, options: saved.options };
+    });
+
+    this.mounts = mounts;
+    this.rootFS = mounts[0].filesystem;
+    this.openFiles.clear();
+    this.fstabErrors = [];
+    this.context.credentials = state.credentials;
+    this.context.umask = state.umask;
+    this.sessions = state.sessions.map(session => ({ ...session }));
+    try {
+      this.setCurrentDirectory(state.directory);
+    } catch {
+      this.changeDirectory('/');
     }
-    
-    return processedNode;
+    return created;
   }
 
-  // Find the filesystem responsible for a given path
-  private findResponsibleFilesystem(path: string): { fs: FileSystem, relativePath: string } {
+  // Get the merged tree of every mounted filesystem, starting from /. At each mount
+  // point, at any depth, the mounted directory replaces the one underneath, and every
+  // node is tagged with the mount it belongs to.
+  getFileSystemTree(): FileTreeNode {
+    return this.buildTree('/', '', this.rootFS.root, this.mounts[0]);
+  }
+
+  // Build the tree below one path. Nodes are read directly rather than listed, so this
+  // needs no permissions and doesn't update access times.
+  private buildTree(path: string, name: string, entry: FileSystemNode, parentMount: MountPoint): FileTreeNode {
+    let node = entry;
+    let mount = parentMount;
+
+    const mounted = this.mounts.find(m => m.path === path);
+    if (mounted) {
+      const { fs, relativePath } = this.findMount(path);
+      node = this.runAs(ROOT_CREDENTIALS, () => fs.findNode(relativePath, '/', false)) ?? entry;
+      mount = mounted;
+    }
+
+    const children = node.type === FileSystemNodeType.DIRECTORY
+      ? this.getTreeEntries(node as DirectoryNode, path, mount)
+        .map(child => this.buildTree(joinPath(path, `/${child.name}`), child.name, child, mount))
+      : [];
+
+    return { name, path, node, mount, isMountPoint: mounted !== undefined, children };
+  }
+
+  // Entries of a directory in the merged tree; on an overlay, those of both layers
+  private getTreeEntries(node: DirectoryNode, path: string, mount: MountPoint): FileSystemNode[] {
+    if (!(mount.filesystem instanceof OverlayFileSystem)) {
+      return Array.from(node.children.values());
+    }
+
+    const overlay = mount.filesystem;
+    const { relativePath } = this.findMountPoint(path);
+    return this.runAs(ROOT_CREDENTIALS, () => this.listOverlayDirectory(overlay, relativePath, layerPath => {
+      const directory = this.findLayerNode(layerPath);
+      return directory?.type === FileSystemNodeType.DIRECTORY
+        ? Array.from((directory as DirectoryNode).children.values())
+        : [];
+    }));
+  }
+
+  // Find the filesystem responsible for a given path, after resolving symbolic links.
+  // With followLast false a link in the final segment is left alone (like lstat).
+  // On an overlay this is the layer holding the path; see findMount.
+  private findResponsibleFilesystem(
+    path: string, 
+    followLast: boolean = true
+  ): { fs: FileSystem, relativePath: string, mount: MountPoint } {
+    return this.findMount(this.resolveSymlinks(path, followLast));
+  }
+
+  // Find the filesystem for a path that is about to be modified, throwing EROFS
+  // if it is mounted read-only. On an overlay the path is first copied up to the upper
+  // layer; creating is true for operations that may create the final entry.
+  private findWritableFilesystem(
+    path: string,
+    followLast: boolean = true,
+    creating: boolean = false
+  ): { fs: FileSystem, relativePath: string, mount: MountPoint } {
+    const { mount, relativePath } = this.findMountPoint(this.resolveSymlinks(path, followLast));
+    this.checkWritable(mount, path);
+    if (!(mount.filesystem instanceof OverlayFileSystem)) {
+      return { fs: mount.filesystem, relativePath, mount };
+    }
+
+    const upperPath = this.copyUp(mount.filesystem, relativePath, creating);
+    if (upperPath === null) {
+      return { fs: mount.filesystem, relativePath, mount }; // Not in the merged view: ENOENT
+    }
+    const upper = this.findMount(upperPath);
+    this.checkWritable(upper.mount, path);
+    return { ...upper, mount };
+  }
+
+  // Throw EROFS for changes to a read-only mount
+  private checkWritable(mount: MountPoint, path: string): void {
+    if (mount.options.readOnly) {
+      throw new FileSystemError(ErrorCode.EROFS, path);
+    }
+  }
+
+  // Resolve every symbolic link in an absolute path. Each segment is looked up through the
+  // mount table, so links pointing into (or out of) other mounted filesystems work.
+  private resolveSymlinks(path: string, followLast: boolean): string {
+    let remaining = path.split('/').filter(seg => seg !== '');
+    let resolved: string[] = [];
+    let linksFollowed = 0;
+
+    while (remaining.length > 0) {
+      const segment = remaining.shift();
+
+      if (segment === '.') continue;
+      if (segment === '..') {
+        resolved.pop();
+        continue;
+      }
+
+      const candidate = '/' + [...resolved, segment].join('/');
+      this.checkMountTraversal(candidate);
+
+      if (remaining.length === 0 && !followLast) {
+        resolved.push(segment);
+        break;
+      }
+
+      const { fs, relativePath } = this.findMount(candidate);
+      const node = fs.findNode(relativePath, '/', false);
+
+      if (node && node.type === FileSystemNodeType.SYMLINK) {
+        if (++linksFollowed > MAX_SYMLINK_DEPTH) {
+          throw new FileSystemError(ErrorCode.ELOOP, path);
+        }
+
+        const target = (node as SymlinkNode).target;
+        if (target.startsWith('/')) {
+          resolved = [];
+        }
+        remaining = [...target.split('/').filter(seg => seg !== ''), ...remaining];
+      } else {
+        // Missing segments are kept; the operation itself reports ENOENT
+        resolved.push(segment);
+      }
+    }
+
+    return '/' + resolved.join('/');
+  }
+
+  // Throw EACCES when a path is a mount point whose parent directory can't be searched.
+  // Lookups check search permission on the way down inside one filesystem, but the
+  // directories above a mount point belong to the filesystems it is mounted on.
+  private checkMountTraversal(path: string): void {
+    if (path === '/' || !this.mounts.some(m => m.path === path)) {
+      return;
+    }
+    const { fs, relativePath } = this.findMount(path.substring(0, path.lastIndexOf('/')) || '/');
+    fs.access(relativePath, X_OK);
+  }
+
+  // Find the filesystem holding a symlink-free absolute path. A path on an overlay is
+  // looked up in the layer that provides it; a path the merged view doesn't have (one
+  // that was deleted, for instance) resolves to the overlay's own empty tree instead.
+  private findMount(path: string): { fs: FileSystem, relativePath: string, mount: MountPoint } {
+    const { mount, relativePath } = this.findMountPoint(path);
+    if (!(mount.filesystem instanceof OverlayFileSystem)) {
+      return { fs: mount.filesystem, relativePath, mount };
+    }
+
+    const overlay = mount.filesystem;
+    const { upperNode, lowerNode } = this.lookupOverlay(overlay, relativePath);
+    if (upperNode && !isWhiteout(upperNode)) {
+      return { ...this.findMount(joinPath(overlay.upperDir, relativePath)), mount };
+    }
+    if (lowerNode && !upperNode) {
+      return { ...this.findMount(joinPath(overlay.lowerDir, relativePath)), mount };
+    }
+    return { fs: overlay, relativePath, mount };
+  }
+
+  // Find the mount point containing a symlink-free absolute path, and the path within it
+  private findMountPoint(path: string): { mount: MountPoint, relativePath: string } {
     // Sort mounts by path length (descending) so we match the most specific mount first
     const sortedMounts = [...this.mounts].sort(
       (a, b) => b.path.length - a.path.length
@@ -109,12 +543,204 @@ export class MountManager {
           '/' : 
           path.substring(mount.path.length);
           
-        return { fs: mount.filesystem, relativePath };
+        return { relativePath: joinPath(mount.root, relativePath), mount };
       }
     }
     
-    // If no specific mount found, use the root filesystem
-    return { fs: this.rootFS, relativePath: path };
+    // If no specific mount found, use the root filesystem (always the first mount)
+    return { relativePath: path, mount: this.mounts[0] };
+  }
+
+  // Find the overlay a path is on, with the path relative to it, or null if it isn't on one
+  private findOverlay(
+    path: string,
+    followLast: boolean = true
+  ): { mount: MountPoint, overlay: OverlayFileSystem, path: string, relativePath: string } | null {
+    const resolved = this.resolveSymlinks(path, followLast);
+    const { mount, relativePath } = this.findMountPoint(resolved);
+    if (!(mount.filesystem instanceof OverlayFileSystem)) {
+      return null;
+    }
+    return { mount, overlay: mount.filesystem, path: resolved, relativePath };
+  }
+
+  // Look up an overlay path in both layers, one level at a time. Below an upper entry
+  // that isn't a directory (such as a whiteout), or below an opaque upper directory,
+  // the lower layer is hidden. Each node is null where its layer doesn't have the path.
+  private lookupOverlay(
+    overlay: OverlayFileSystem,
+    relativePath: string
+  ): { upperNode: FileSystemNode | null, lowerNode: FileSystemNode | null } {
+    let upperNode = this.findLayerNode(overlay.upperDir);
+    let lowerNode = this.findLayerNode(overlay.lowerDir);
+    let path = '';
+
+    for (const segment of relativePath.split('/').filter(seg => seg !== '')) {
+      const upperIsDirectory = upperNode?.type === FileSystemNodeType.DIRECTORY;
+      const lowerVisible = lowerNode?.type === FileSystemNodeType.DIRECTORY
+        && (upperNode === null || (upperIsDirectory && !overlay.isOpaque(path)));
+
+      path += `/${segment}`;
+      upperNode = upperIsDirectory ? this.findLayerNode(joinPath(overlay.upperDir, path)) : null;
+      lowerNode = lowerVisible ? this.findLayerNode(joinPath(overlay.lowerDir, path)) : null;
+    }
+
+    return { upperNode, lowerNode };
+  }
+
+  // Get a node in an overlay layer without following a final symbolic link, or null
+  private findLayerNode(path: string): FileSystemNode | null {
+    const { fs, relativePath } = this.findMount(path);
+    return fs.findNode(relativePath, '/', false);
+  }
+
+  // Get an overlay path ready to be changed, returning where it is in the upper layer.
+  // Its parent directories and the entry itself are copied up from the lower layer with
+  // their attributes. A whiteout is cleared when creating a new entry in its place; a
+  // directory created there is opaque, so the deleted lower contents stay hidden.
+  // Returns null if the path isn't in the merged view (and isn't being created).
+  private copyUp(overlay: OverlayFileSystem, relativePath: string, creating: boolean): string | null {
+    let path = '';
+
+    for (const segment of relativePath.split('/').filter(seg => seg !== '')) {
+      path += `/${segment}`;
+      const isLast = path === relativePath;
+      const { upperNode, lowerNode } = this.lookupOverlay(overlay, path);
+      const upperPath = joinPath(overlay.upperDir, path);
+
+      if (isWhiteout(upperNode) || (!upperNode && !lowerNode)) {
+        if (!isLast || !creating) {
+          return null;
+        }
+        if (upperNode) {
+          this.runAs(ROOT_CREDENTIALS, () => this.remove(upperPath));
+          if (lowerNode?.type === FileSystemNodeType.DIRECTORY) {
+            overlay.markOpaque(path);
+          }
+        }
+      } else if (!upperNode && lowerNode) {
+        const lowerPath = joinPath(overlay.lowerDir, path);
+        this.runAs(ROOT_CREDENTIALS, () => {
+          if (lowerNode.type === FileSystemNodeType.DIRECTORY) {
+            this.mkdir(upperPath);
+            this.copyAttributes(lowerNode, upperPath);
+          } else {
+            this.copyTree(lowerPath, upperPath, { preserve: true });
+          }
+        });
+      }
+    }
+
+    return joinPath(overlay.upperDir, relativePath);
+  }
+
+  // List an overlay directory: the upper entries, then the lower ones they don't
+  // replace or white out. Each layer's directory is read with list.
+  private listOverlayDirectory(
+    overlay: OverlayFileSystem,
+    relativePath: string,
+    list: (path: string) => FileSystemNode[] = path => this.listDirectory(path)
+  ): FileSystemNode[] {
+    const { upperNode, lowerNode } = this.lookupOverlay(overlay, relativePath);
+    if (isWhiteout(upperNode) || (!upperNode && !lowerNode)) {
+      return overlay.listDirectory(relativePath); // Not in the merged view: ENOENT
+    }
+
+    const lowerPath = joinPath(overlay.lowerDir, relativePath);
+    if (!upperNode) {
+      return list(lowerPath);
+    }
+
+    const entries = list(joinPath(overlay.upperDir, relativePath));
+    const merged = upperNode.type === FileSystemNodeType.DIRECTORY
+      && lowerNode?.type === FileSystemNodeType.DIRECTORY
+      && !overlay.isOpaque(relativePath);
+    if (merged) {
+      const names = new Set(entries.map(entry => entry.name));
+      entries.push(...list(lowerPath).filter(entry => !names.has(entry.name)));
+    }
+    return entries.filter(entry => !isWhiteout(entry));
+  }
+
+  // Delete an entry from an overlay, like unlink or (with directory set) rmdir. It is
+  // removed from the upper layer, and if the lower layer has it too, a whiteout is left
+  // in the upper layer to hide it.
+  private removeFromOverlay(mount: MountPoint, path: string, relativePath: string, directory: boolean): void {
+    const overlay = mount.filesystem as OverlayFileSystem;
+    const parentPath = relativePath.substring(0, relativePath.lastIndexOf('/')) || '/';
+    this.checkWritable(mount, path);
+
+    const node = this.lstat(path);
+    if (directory && node.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, path);
+    }
+    if (!directory && node.type === FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.EISDIR, path);
+    }
+    if (directory && this.listDirectory(path).length > 0) {
+      throw new FileSystemError(ErrorCode.ENOTEMPTY, path);
+    }
+    this.access(path.substring(0, path.lastIndexOf('/')) || '/', W_OK | X_OK);
+
+    const { upperNode, lowerNode } = this.lookupOverlay(overlay, relativePath);
+    this.copyUp(overlay, parentPath, false);
+    const upperPath = joinPath(overlay.upperDir, relativePath);
+
+    if (upperNode && directory) {
+      // All that can be left in it are whiteouts
+      this.runAs(ROOT_CREDENTIALS, () => this.listDirectory(upperPath)
+        .forEach(child => this.remove(`${upperPath}/${child.name}`)));
+      this.rmdir(upperPath);
+    } else if (upperNode) {
+      this.remove(upperPath);
+    }
+
+    if (lowerNode) {
+      const upper = this.findMount(upperPath);
+      upper.fs.mknod(upper.relativePath, WHITEOUT_DEVICE, 0);
+    }
+  }
+
+  // Resolve an overlay's layer directories to absolute paths. Both must be existing
+  // directories, outside the mount point and not inside each other.
+  private attachOverlayLayers(overlay: OverlayFileSystem, mountPoint: string): void {
+    overlay.lowerDir = this.resolveSymlinks(this.normalizePath(overlay.lowerDir), true);
+    overlay.upperDir = this.resolveSymlinks(this.normalizePath(overlay.upperDir), true);
+
+    const isWithin = (path: string, dir: string) =>
+      path === dir || path.startsWith(dir === '/' ? '/' : `${dir}/`);
+
+    for (const dir of [overlay.lowerDir, overlay.upperDir]) {
+      if (this.stat(dir).type !== FileSystemNodeType.DIRECTORY) {
+        throw new FileSystemError(ErrorCode.ENOTDIR, dir);
+      }
+      if (isWithin(dir, mountPoint)) {
+        throw new FileSystemError(ErrorCode.EINVAL, dir);
+      }
+    }
+    if (isWithin(overlay.lowerDir, overlay.upperDir) || isWithin(overlay.upperDir, overlay.lowerDir)) {
+      throw new FileSystemError(ErrorCode.EINVAL, overlay.upperDir);
+    }
+  }
+
+  // Load the archive a zip mount shows, reading it with the caller's permissions and
+  // giving them its entries. It's read once: later changes to the file don't show through the mount. Anything that
+  // isn't a readable zip archive is EINVAL, as for a disk with the wrong filesystem.
+  private attachArchive(fs: ZipFileSystem, source: string | null, mountPoint: string): void {
+    if (source === null) {
+      throw new FileSystemError(ErrorCode.EINVAL, mountPoint);
+    }
+    const sourcePath = this.realpath(source);
+    const data = this.readFileBytes(sourcePath);
+    const { uid, gid } = this.getCredentials();
+    try {
+      fs.load({ path: sourcePath, data, uid, gid });
+    } catch (error) {
+      if (error instanceof ArchiveError) {
+        throw new FileSystemError(ErrorCode.EINVAL, sourcePath);
+      }
+      throw error;
+    }
   }
 
   // Normalize path relative to current directory
@@ -148,107 +774,764 @@ export class MountManager {
     return '/' + result.join('/');
   }
 
-  // Mount a filesystem at a specific path
-  mount(fsType: string, mountPoint: string): boolean {
+  // Mount a new filesystem of a registered type at a specific path. Generic options
+  // (ro, noexec, nosuid) are kept on the mount; the rest, e.g. size= for tmpfs, go to
+  // the driver. The source is the archive for zip mounts and ignored by other types.
+  // Throws EPERM unless running as root and ENODEV for unknown types.
+  mount(fsType: string, mountPoint: string, options: FileSystemOptions = {}, source: string | null = null): void {
     // Normalize the mount point path
     const normalizedPath = this.normalizePath(mountPoint);
+    this.checkMountPermission(normalizedPath);
+
+    const driver = this.drivers.get(fsType);
+    const mountOptions = applyMountOptions(DEFAULT_MOUNT_OPTIONS, options);
     
     // Check if this path is already mounted
     if (this.mounts.some(m => m.path === normalizedPath)) {
-      return false;
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
     }
     
+    // Create the new filesystem first so bad options leave nothing behind
+    const newFS = driver.createFileSystem(`mount_${this.mounts.length}`, this.context, mountOptions.driverOptions, this);
+    if (newFS instanceof OverlayFileSystem) {
+      this.attachOverlayLayers(newFS, normalizedPath);
+    }
+    if (newFS instanceof ZipFileSystem) {
+      this.attachArchive(newFS, source, normalizedPath);
+      mountOptions.readOnly = true;
+    }
+
     // Create the directory for the mount point if it doesn't exist
-    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
+    this.prepareMountPoint(normalizedPath);
+
+    // Mount the new filesystem
+    this.mounts.push({
+      path: normalizedPath,
+      filesystem: newFS,
+      root: '/',
+      options: mountOptions
+    });
+  }
+
+  // Make a directory that's already mounted visible at a second path as well (mount
+  // --bind). Both paths show the same nodes, so changes through one appear at the
+  // other. Only generic options such as ro apply; they affect just the new mount.
+  // Root only.
+  bindMount(source: string, mountPoint: string, options: FileSystemOptions = {}): void {
+    this.checkMountPermission(this.normalizePath(mountPoint));
+    const mountOptions = applyMountOptions(DEFAULT_MOUNT_OPTIONS, options);
+    rejectUnknownOptions(mountOptions.driverOptions);
+
+    const sourcePath = this.resolveSymlinks(this.normalizePath(source), true);
+    if (this.stat(sourcePath).type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.ENOTDIR, sourcePath);
+    }
+
+    const normalizedPath = this.normalizePath(mountPoint);
+    if (this.mounts.some(m => m.path === normalizedPath)) {
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
+    }
+    this.prepareMountPoint(normalizedPath);
+
+    // Mounts below the source aren't carried over, as with a non-recursive bind
+    const { mount, relativePath } = this.findMountPoint(sourcePath);
+    this.mounts.push({
+      path: normalizedPath,
+      filesystem: mount.filesystem,
+      root: relativePath,
+      options: mountOptions
+    });
+  }
+
+  // Mount everything in /etc/fstab that isn't mounted yet (mount -a), skipping noauto
+  // entries. Entries are mounted in file order, so later ones can go inside earlier
+  // ones. Bad lines and failed mounts don't stop the rest; they come back with their
+  // line numbers, except failed mounts marked nofail. Root only.
+  mountAll(): MountAllResult {
+    this.checkMountPermission(FSTAB_PATH);
+    const { entries, errors } = parseFstab(this.readFile(FSTAB_PATH));
+    const mounted: FstabEntry[] = [];
+
+    for (const entry of entries) {
+      const mountPoint = this.normalizePath(entry.mountPoint);
+      if ('noauto' in entry.options || this.mounts.some(m => m.path === mountPoint)) {
+        continue;
+      }
+
+      const { bind, ...options } = entry.options;
+      FSTAB_ONLY_OPTIONS.forEach(key => delete options[key]);
+      try {
+        if (bind !== undefined) {
+          this.bindMount(entry.source, mountPoint, options);
+        } else {
+          this.mount(entry.fsType, mountPoint, options, entry.source);
+        }
+        mounted.push(entry);
+      } catch (error) {
+        if (!(error instanceof FileSystemError)) {
+          throw error;
+        }
+        if (!('nofail' in entry.options)) {
+          const message = error.code === ErrorCode.ENODEV
+            ? `unknown filesystem type '${entry.fsType}'`
+            : `${mountPoint}: ${error.description}`;
+          errors.push({ line: entry.line, message });
+        }
+      }
+    }
+
+    errors.sort((a, b) => a.line - b.line);
+    return { mounted, errors };
+  }
+
+  // Make sure a mount point is a directory, creating it if it doesn't exist
+  private prepareMountPoint(path: string): void {
+    const { fs, relativePath } = this.findResponsibleFilesystem(path);
     const node = fs.findNode(relativePath);
     
     if (!node) {
       // Create the directory
-      if (!fs.mkdirRecursive(relativePath)) {
-        return false;
-      }
+      this.mkdirRecursive(path);
     } else if (node.type !== FileSystemNodeType.DIRECTORY) {
       // Can't mount on a file
-      return false;
+      throw new FileSystemError(ErrorCode.ENOTDIR, path);
     }
+  }
 
-    // Create a new filesystem and mount it
-    const newFS = new FileSystem(`mount_${this.mounts.length}`, fsType);
-    this.mounts.push({
-      path: normalizedPath,
-      filesystem: newFS
-    });
-    
-    return true;
+  // Throw EPERM unless running as root: only root may change the mount table
+  private checkMountPermission(path: string): void {
+    if (this.context.credentials.uid !== 0) {
+      throw new FileSystemError(ErrorCode.EPERM, path);
+    }
   }
 
-  // Unmount a filesystem
-  unmount(mountPoint: string): boolean {
+  // Change the options of a live mount (mount -o remount,...), e.g. to make it read-only.
+  // Root only.
+  remount(mountPoint: string, options: FileSystemOptions): void {
+    const normalizedPath = this.normalizePath(mountPoint);
+    this.checkMountPermission(normalizedPath);
+    const mount = this.mounts.find(m => m.path === normalizedPath);
+    if (!mount) {
+      throw new FileSystemError(ErrorCode.EINVAL, normalizedPath); // Not a mount point
+    }
+
+    const updated = applyMountOptions(mount.options, options);
+
+    // Only driver options that actually changed are passed on
+    const changed: FileSystemOptions = {};
+    for (const [key, value] of Object.entries(updated.driverOptions)) {
+      if (mount.options.driverOptions[key] !== value) {
+        changed[key] = value;
+      }
+    }
+    mount.filesystem.remount(changed);
+
+    mount.options = updated;
+  }
+
+  // Unmount a filesystem. Fails with EBUSY while the working directory (or that of a
+  // shell suspended by su) is inside it, a file on it is open, or something is mounted
+  // below it, unless recursive unmounts those too. A lazy unmount detaches the mount
+  // and everything below it straight away, whatever is using them. Open files stay
+  // readable, but working directories are paths, not references to the filesystem, so
+  // any inside it are moved to the mount point, now in the filesystem below. Root only.
+  unmount(mountPoint: string, options: UnmountOptions = {}): void {
     // Normalize the mount point path
     const normalizedPath = this.normalizePath(mountPoint);
+    this.checkMountPermission(normalizedPath);
     
     // Can't unmount root
     if (normalizedPath === '/') {
-      return false;
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
     }
     
     // Find the mount
-    const index = this.mounts.findIndex(m => m.path === normalizedPath);
-    if (index === -1) {
-      return false;
+    const mount = this.mounts.find(m => m.path === normalizedPath);
+    if (!mount) {
+      throw new FileSystemError(ErrorCode.EINVAL, normalizedPath); // Not a mount point
+    }
+
+    const isBelow = (path: string) => path === normalizedPath || path.startsWith(`${normalizedPath}/`);
+    const nested = this.mounts.filter(m => m !== mount && isBelow(m.path));
+    const detached = options.lazy || options.recursive ? [mount, ...nested] : [mount];
+
+    if (!options.lazy) {
+      const directories = [
+        this.currentDirectory,
+        this.physicalDirectory,
+        ...this.sessions.map(session => session.directory)
+      ];
+      const busy = (nested.length > 0 && !options.recursive)
+        || directories.some(isBelow)
+        || Array.from(this.openFiles.values()).some(handle => detached.includes(handle.mount));
+      if (busy) {
+        throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
+      }
     }
     
-    // Remove the mount
-    this.mounts.splice(index, 1);
-    return true;
+    // Remove the mounts
+    this.mounts = this.mounts.filter(m => !detached.includes(m));
+
+    // A working directory in a detached filesystem falls back to the directory it was
+    // mounted on, including those of shells suspended by su
+    if (isBelow(this.currentDirectory) || isBelow(this.physicalDirectory)) {
+      this.changeDirectory(normalizedPath);
+    }
+    this.sessions.filter(session => isBelow(session.directory)).forEach(session => {
+      session.directory = normalizedPath;
+    });
+  }
+
+  // Find the mount at a path for a snapshot command. Only whole filesystems that store
+  // their own tree can have snapshots, so bind mounts, overlays and generated or
+  // archive trees are refused with EINVAL. Changing snapshots is for root only, since
+  // restoring one undoes everyone's changes.
+  private findSnapshotMount(mountPoint: string, change: boolean): MountPoint {
+    const normalizedPath = this.normalizePath(mountPoint);
+    const mount = this.mounts.find(m => m.path === normalizedPath);
+    if (!mount || mount.root !== '/' || mount.filesystem instanceof OverlayFileSystem || !mount.filesystem.isPersistent()) {
+      throw new FileSystemError(ErrorCode.EINVAL, normalizedPath);
+    }
+    if (change && this.context.credentials.uid !== 0) {
+      throw new FileSystemError(ErrorCode.EPERM, normalizedPath);
+    }
+    return mount;
+  }
+
+  // Get the snapshots of the filesystem mounted at a path, oldest first
+  getSnapshots(mountPoint: string): FileSystemSnapshot[] {
+    return this.findSnapshotMount(mountPoint, false).filesystem.snapshots;
+  }
+
+  // Take a snapshot of the filesystem mounted at a path
+  createSnapshot(mountPoint: string, name: string): FileSystemSnapshot {
+    return takeSnapshot(this.findSnapshotMount(mountPoint, true).filesystem, name);
+  }
+
+  // Delete a snapshot of the filesystem mounted at a path
+  deleteSnapshot(mountPoint: string, name: string): void {
+    destroySnapshot(this.findSnapshotMount(mountPoint, true).filesystem, name);
+  }
+
+  // List what changed in the filesystem mounted at a path since a snapshot, or between
+  // it and a later one. Paths are given as seen through the mount.
+  diffSnapshot(mountPoint: string, name: string, otherName: string | null = null): SnapshotChange[] {
+    const mount = this.findSnapshotMount(mountPoint, false);
+    return compareSnapshot(mount.filesystem, name, otherName)
+      .map(change => ({ ...change, path: joinPath(mount.path, change.path) }));
+  }
+
+  // Put the filesystem mounted at a path back the way it was in a snapshot. Fails with
+  // EROFS on a read-only mount and EBUSY while a file on it is open. Mount points the
+  // snapshot lacks are made again, and a working directory that no longer exists
+  // falls back to the mount point.
+  restoreSnapshot(mountPoint: string, name: string): void {
+    const mount = this.findSnapshotMount(mountPoint, true);
+    const fs = mount.filesystem;
+    this.checkWritable(mount, mount.path);
+    if (Array.from(this.openFiles.values()).some(handle => handle.filesystem === fs)) {
+      throw new FileSystemError(ErrorCode.EBUSY, mount.path);
+    }
+
+    rollBackSnapshot(fs, name);
+
+    // Only mounts sitting directly on this filesystem have their mount point in it
+    const isBelow = (path: string, directory: string) =>
+      directory === '/' ? path !== '/' : path.startsWith(`${directory}/`);
+    const nested = this.mounts.filter(m => isBelow(m.path, mount.path)
+      && !this.mounts.some(between => isBelow(m.path, between.path) && isBelow(between.path, mount.path)));
+    for (const m of nested) {
+      const relativePath = mount.path === '/' ? m.path : m.path.substring(mount.path.length);
+      try {
+        if (!fs.findNode(relativePath)) {
+          fs.mkdirRecursive(relativePath);
+        }
+      } catch (error) {
+        // Something else is in the way; the mount still hides it
+        if (!(error instanceof FileSystemError)) {
+          throw error;
+        }
+      }
+    }
+
+    try {
+      this.setCurrentDirectory(this.currentDirectory);
+    } catch {
+      this.changeDirectory(mount.path);
+    }
+  }
+
+  // Open a file for reading
+  open(path: string): FileHandle {
+    const resolved = this.resolveSymlinks(this.normalizePath(path), true);
+    const { fs, relativePath, mount } = this.findMount(resolved);
+
+    if (fs.lookup(relativePath).type === FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.EISDIR, resolved);
+    }
+    fs.access(relativePath, R_OK);
+
+    const handle = { fd: this.nextFd++, path: resolved, mount, filesystem: fs, relativePath };
+    this.openFiles.set(handle.fd, handle);
+    return handle;
+  }
+
+  // Read the whole content of an open file
+  readOpenFile(fd: number): Uint8Array {
+    const handle = this.getOpenFile(fd);
+    return handle.filesystem.readFileBytes(handle.relativePath);
+  }
+
+  // Close an open file
+  close(fd: number): void {
+    if (!this.openFiles.delete(fd)) {
+      throw new FileSystemError(ErrorCode.EBADF, String(fd));
+    }
+  }
+
+  // Get an open file by descriptor, throwing EBADF if it isn't open
+  getOpenFile(fd: number): FileHandle {
+    const handle = this.openFiles.get(fd);
+    if (!handle) {
+      throw new FileSystemError(ErrorCode.EBADF, String(fd));
+    }
+    return handle;
+  }
+
+  // All open files, in the order they were opened
+  getOpenFiles(): FileHandle[] {
+    return Array.from(this.openFiles.values());
   }
 
   // Create a directory
-  mkdir(path: string): boolean {
+  mkdir(path: string): void {
     const normalizedPath = this.normalizePath(path);
-    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.mkdir(relativePath);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, true, true);
+    fs.mkdir(relativePath);
   }
 
   // Create directories recursively
-  mkdirRecursive(path: string): boolean {
+  mkdirRecursive(path: string): void {
     const normalizedPath = this.normalizePath(path);
-    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.mkdirRecursive(relativePath);
+
+    // On an overlay each level may come from a different layer, so go one at a time
+    if (this.findOverlay(normalizedPath)) {
+      let current = '';
+      for (const segment of normalizedPath.split('/').filter(seg => seg !== '')) {
+        current += `/${segment}`;
+        if (!this.exists(current)) {
+          this.mkdir(current);
+        }
+      }
+      return;
+    }
+
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, true, true);
+    fs.mkdirRecursive(relativePath);
   }
 
   // Create a file
-  createFile(path: string, content: string = ''): boolean {
+  createFile(path: string, content: FileData = ''): void {
     const normalizedPath = this.normalizePath(path);
-    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.createFile(relativePath, content);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, true, true);
+    fs.createFile(relativePath, content);
+  }
+
+  // Write text or bytes to a file
+  writeFile(path: string, content: FileData): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, true, true);
+    fs.writeFile(relativePath, content);
   }
 
-  // Write to a file
-  writeFile(path: string, content: string): boolean {
+  // Read a file as text
+  readFile(path: string, encoding: string = 'utf-8'): string {
     const normalizedPath = this.normalizePath(path);
     const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.writeFile(relativePath, content);
+    return fs.readFile(relativePath, '/', encoding);
   }
 
-  // Read from a file
-  readFile(path: string): string | null {
+  // Read a file's raw bytes
+  readFileBytes(path: string): Uint8Array {
     const normalizedPath = this.normalizePath(path);
     const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.readFile(relativePath);
+    return fs.readFileBytes(relativePath);
   }
 
   // List contents of a directory
-  listDirectory(path: string): FileSystemNode[] | null {
+  listDirectory(path: string): FileSystemNode[] {
     const normalizedPath = this.normalizePath(path);
+    const overlay = this.findOverlay(normalizedPath);
+    if (overlay) {
+      return this.listOverlayDirectory(overlay.overlay, overlay.relativePath);
+    }
+
     const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
     return fs.listDirectory(relativePath);
   }
 
-  // Remove a file or directory
-  remove(path: string): boolean {
+  // Remove a file or a symbolic link itself, not its target
+  remove(path: string): void {
+    const normalizedPath = this.normalizePath(path);
+    const overlay = this.findOverlay(normalizedPath, false);
+    if (overlay) {
+      this.removeFromOverlay(overlay.mount, overlay.path, overlay.relativePath, false);
+      return;
+    }
+
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, false);
+    fs.remove(relativePath);
+  }
+
+  // Remove an empty directory. Mount points can't be removed while mounted.
+  rmdir(path: string): void {
+    const normalizedPath = this.resolveSymlinks(this.normalizePath(path), false);
+    if (this.mounts.some(m => m.path === normalizedPath)) {
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
+    }
+
+    const { mount, relativePath } = this.findMountPoint(normalizedPath);
+    if (mount.filesystem instanceof OverlayFileSystem) {
+      this.removeFromOverlay(mount, normalizedPath, relativePath, true);
+      return;
+    }
+
+    this.checkWritable(mount, normalizedPath);
+    mount.filesystem.rmdir(relativePath);
+  }
+
+  // Remove a path and everything below it (like rm -r). Nothing is removed if the
+  // path is a mount point or has another filesystem mounted anywhere below it.
+  removeRecursive(path: string): void {
+    const normalizedPath = this.resolveSymlinks(this.normalizePath(path), false);
+    const prefix = normalizedPath === '/' ? '/' : `${normalizedPath}/`;
+    if (this.mounts.some(m => m.path === normalizedPath || m.path.startsWith(prefix))) {
+      throw new FileSystemError(ErrorCode.EBUSY, normalizedPath);
+    }
+
+    this.removeTree(normalizedPath);
+  }
+
+  // Depth-first removal of a tree already checked for mount points
+  private removeTree(path: string): void {
+    if (this.lstat(path).type !== FileSystemNodeType.DIRECTORY) {
+      this.remove(path);
+      return;
+    }
+
+    for (const child of this.listDirectory(path)) {
+      this.removeTree(`${path}/${child.name}`);
+    }
+    this.rmdir(path);
+  }
+
+  // Move or rename a path. Within one filesystem this is a rename; between different
+  // filesystems it falls back to copying the tree and deleting the source, the way mv
+  // handles EXDEV from rename(2).
+  move(sourcePath: string, destinationPath: string): void {
+    const source = this.resolveSymlinks(this.normalizePath(sourcePath), false);
+    const destination = this.resolveSymlinks(this.normalizePath(destinationPath), false);
+
+    // Mount points, and directories with something mounted below them, stay put
+    const busy = this.mounts.some(m => m.path !== '/' && (m.path === source || m.path.startsWith(`${source}/`)));
+    if (busy || this.mounts.some(m => m.path === destination)) {
+      throw new FileSystemError(ErrorCode.EBUSY, busy ? source : destination);
+    }
+
+    const from = this.findMount(source);
+    const to = this.findMount(destination);
+    this.checkWritable(from.mount, source);
+    this.checkWritable(to.mount, destination);
+
+    // Renaming on an overlay would leave the lower layer's copy behind, so moves there
+    // copy and delete, as for EXDEV
+    const onOverlay = [from, to].some(({ mount }) => mount.filesystem instanceof OverlayFileSystem);
+    if (from.fs === to.fs && !onOverlay) {
+      from.fs.rename(from.relativePath, to.relativePath);
+    } else {
+      this.moveAcrossFilesystems(source, destination);
+    }
+
+    // Keep the working directory on the same directory after it moved
+    if (this.currentDirectory === source || this.currentDirectory.startsWith(`${source}/`)) {
+      this.changeDirectory(destination + this.currentDirectory.substring(source.length));
+    }
+  }
+
+  // Copy then delete, replacing a compatible destination the way rename(2) would
+  private moveAcrossFilesystems(source: string, destination: string): void {
+    const node = this.lstat(source);
+    const isDir = node.type === FileSystemNodeType.DIRECTORY;
+
+    const existing = this.lstatOrNull(destination);
+    if (existing) {
+      if (existing.type === FileSystemNodeType.DIRECTORY) {
+        if (!isDir) {
+          throw new FileSystemError(ErrorCode.EISDIR, destination);
+        }
+        if (this.listDirectory(destination).length > 0) {
+          throw new FileSystemError(ErrorCode.ENOTEMPTY, destination);
+        }
+      } else if (isDir) {
+        throw new FileSystemError(ErrorCode.ENOTDIR, destination);
+      }
+      if (isDir) {
+        this.rmdir(destination);
+      } else {
+        this.remove(destination);
+      }
+    }
+
+    this.copyTree(source, destination, { recursive: true, preserve: true });
+    this.removeRecursive(source);
+  }
+
+  // Copy a file or directory tree, which may span different filesystems. Copying onto an
+  // existing directory puts the copy inside it under the source's name, and copying a
+  // directory onto a directory merges them. Returns the path that was written.
+  copy(sourcePath: string, destinationPath: string, options: CopyOptions = {}): string {
+    const source = this.normalizePath(sourcePath);
+    let destination = this.normalizePath(destinationPath);
+
+    const destinationNode = this.statOrNull(destination);
+    if (destinationNode && destinationNode.type === FileSystemNodeType.DIRECTORY) {
+      const name = source.split('/').filter(seg => seg !== '').pop() ?? '';
+      destination = `${destination.replace(/\/+$/, '')}/${name}`;
+    }
+
+    // Without -a a symbolic link given as the source is copied as the file it points to
+    const followSource = !options.preserve;
+    const resolvedSource = this.resolveSymlinks(source, followSource);
+    const resolvedDestination = this.resolveSymlinks(destination, false);
+
+    // Refuse to copy something onto itself or a directory into itself
+    if (resolvedDestination === resolvedSource || resolvedDestination.startsWith(`${resolvedSource}/`)) {
+      throw new FileSystemError(ErrorCode.EINVAL, destination);
+    }
+
+    this.copyTree(source, destination, options, followSource);
+    return destination;
+  }
+
+  // Copy one node, recursing into directories
+  private copyTree(
+    sourcePath: string, 
+    destinationPath: string, 
+    options: CopyOptions, 
+    followSource: boolean = false
+  ): void {
+    const node = followSource ? this.stat(sourcePath) : this.lstat(sourcePath);
+    const existing = this.lstatOrNull(destinationPath);
+
+    switch (node.type) {
+      case FileSystemNodeType.SYMLINK:
+        if (existing) {
+          if (options.noClobber) return;
+          this.remove(destinationPath);
+        }
+        this.symlink((node as SymlinkNode).target, destinationPath);
+        return; // A link's own attributes can't be changed
+
+      case FileSystemNodeType.DEVICE: // Copied as a regular file holding what one read returns
+      case FileSystemNodeType.FILE:
+        if (existing) {
+          if (existing.type === FileSystemNodeType.DIRECTORY) {
+            throw new FileSystemError(ErrorCode.EISDIR, destinationPath);
+          }
+          if (options.noClobber) return;
+          if (options.update && existing.mtime >= node.mtime) return;
+          this.writeFile(destinationPath, this.readFileBytes(sourcePath));
+        } else {
+          this.createFile(destinationPath, this.readFileBytes(sourcePath));
+          // New copies keep the source's permission bits, less the umask
+          this.ignoreNotPermitted(() => this.chmod(destinationPath, node.mode & 0o777 & ~this.context.umask));
+        }
+        break;
+
+      case FileSystemNodeType.DIRECTORY:
+        if (!options.recursive) {
+          throw new FileSystemError(ErrorCode.EISDIR, sourcePath);
+        }
+        if (existing && existing.type !== FileSystemNodeType.DIRECTORY) {
+          throw new FileSystemError(ErrorCode.ENOTDIR, destinationPath);
+        }
+        if (!existing) {
+          this.mkdir(destinationPath);
+        }
+        for (const child of this.listDirectory(sourcePath)) {
+          this.copyTree(`${sourcePath}/${child.name}`, `${destinationPath}/${child.name}`, options);
+        }
+        break;
+    }
+
+    if (options.preserve) {
+      this.copyAttributes(node, destinationPath);
+    }
+  }
+
+  // Get a node, or null if the path doesn't exist
+  private statOrNull(path: string, follow: boolean = true): FileSystemNode | null {
+    try {
+      return follow ? this.stat(path) : this.lstat(path);
+    } catch (error) {
+      if (error instanceof FileSystemError && (error.code === ErrorCode.ENOENT || error.code === ErrorCode.ENOTDIR)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Get a node without following a final symbolic link, or null if it doesn't exist
+  private lstatOrNull(path: string): FileSystemNode | null {
+    return this.statOrNull(path, false);
+  }
+
+  // Apply a node's mode, times and (when permitted) ownership to another path
+  private copyAttributes(node: FileSystemNode, destinationPath: string): void {
+    this.ignoreNotPermitted(() => this.chmod(destinationPath, node.mode));
+    this.utimes(destinationPath, node.atime, node.mtime);
+
+    // Only root may give files away; other users keep ownership of the copy
+    this.ignoreNotPermitted(() => this.chown(destinationPath, node.uid, node.gid));
+  }
+
+  // Run an attribute change that may be refused with EPERM without failing the copy,
+  // e.g. chown as a regular user, or chmod on a filesystem without permissions (FAT)
+  private ignoreNotPermitted(change: () => void): void {
+    try {
+      change();
+    } catch (error) {
+      if (!(error instanceof FileSystemError && error.code === ErrorCode.EPERM)) {
+        throw error;
+      }
+    }
+  }
+
+  // Create a symbolic link at path pointing to target
+  symlink(target: string, path: string): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath, false, true);
+    fs.symlink(target, relativePath);
+  }
+
+  // Create a hard link; both paths must live on the same filesystem
+  link(existingPath: string, newPath: string): void {
+    const existing = this.normalizePath(existingPath);
+    // A file on an overlay is copied up first, so the link shares the upper copy's inode
+    const source = this.findOverlay(existing)
+      ? this.findWritableFilesystem(existing)
+      : this.findResponsibleFilesystem(existing);
+    const destination = this.findWritableFilesystem(this.normalizePath(newPath), false, true);
+
+    if (source.fs !== destination.fs) {
+      throw new FileSystemError(ErrorCode.EXDEV, this.normalizePath(newPath));
+    }
+
+    source.fs.link(source.relativePath, destination.relativePath);
+  }
+
+  // Read the target of a symbolic link
+  readlink(path: string): string {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath, false);
+    return fs.readlink(relativePath);
+  }
+
+  // Get the canonical absolute path with all symbolic links resolved
+  realpath(path: string): string {
+    const resolved = this.resolveSymlinks(this.normalizePath(path), true);
+    const { fs, relativePath } = this.findMount(resolved);
+    fs.lookup(relativePath);
+    return resolved;
+  }
+
+  // Check whether a path exists
+  exists(path: string): boolean {
+    const normalizedPath = this.normalizePath(path);
+    try {
+      const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
+      return fs.findNode(relativePath) !== null;
+    } catch {
+      return false; // Symlink loop
+    }
+  }
+
+  // Get the node at a path
+  stat(path: string): FileSystemNode {
     const normalizedPath = this.normalizePath(path);
     const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath);
-    return fs.remove(relativePath);
+    return fs.lookup(relativePath);
+  }
+
+  // Get the node at a path without following a symbolic link in the last segment
+  lstat(path: string): FileSystemNode {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findResponsibleFilesystem(normalizedPath, false);
+    return fs.lookup(relativePath, '/', false);
+  }
+
+  // Check that the current credentials can access a path (like access(2)). Writes to
+  // read-only mounts and executing files on noexec mounts are refused whatever the mode.
+  access(path: string, access: number): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath, mount } = this.findResponsibleFilesystem(normalizedPath);
+    const node = fs.lookup(relativePath);
+
+    if (access & W_OK) {
+      this.checkWritable(mount, normalizedPath);
+    }
+    if ((access & X_OK) && mount.options.noexec && node.type !== FileSystemNodeType.DIRECTORY) {
+      throw new FileSystemError(ErrorCode.EACCES, normalizedPath);
+    }
+    fs.access(relativePath, access);
+  }
+
+  // Check that a file can be run (like execve(2)) and get the credentials it runs with.
+  // It needs execute permission, which no file on a noexec mount has. Its set-user-ID and
+  // set-group-ID bits switch to the file's owner and group, unless the mount is nosuid.
+  getExecCredentials(path: string): Credentials {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath, mount } = this.findResponsibleFilesystem(normalizedPath);
+    const node = fs.lookup(relativePath);
+    if (node.type !== FileSystemNodeType.FILE) {
+      throw new FileSystemError(ErrorCode.EACCES, normalizedPath);
+    }
+    this.access(normalizedPath, X_OK);
+
+    const { uid, gid, groups } = this.context.credentials;
+    const setId = !mount.options.nosuid;
+    return {
+      uid: setId && (node.mode & S_ISUID) ? node.uid : uid,
+      gid: setId && (node.mode & S_ISGID) ? node.gid : gid,
+      groups: [...groups]
+    };
+  }
+
+  // Change permission bits
+  chmod(path: string, mode: number): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath);
+    fs.chmod(relativePath, mode);
+  }
+
+  // Change owner and optionally group
+  chown(path: string, uid: number, gid?: number): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath);
+    fs.chown(relativePath, uid, gid);
+  }
+
+  // Change group
+  chgrp(path: string, gid: number): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath);
+    fs.chgrp(relativePath, gid);
+  }
+
+  // Set access and/or modification times; explicit times require owning the file
+  utimes(path: string, atime: Date | null, mtime: Date | null, explicit: boolean = true): void {
+    const normalizedPath = this.normalizePath(path);
+    const { fs, relativePath } = this.findWritableFilesystem(normalizedPath);
+    fs.utimes(relativePath, atime, mtime, explicit);
   }
 }
@@ -0,0 +1,52 @@
+import { FileSystemOptions } from './FileSystemDriver';
+
+// Options every mount has, whatever its filesystem type
+export interface MountOptions {
+  readOnly: boolean; // ro: every write fails with EROFS
+  noexec: boolean;   // noexec: files can't be executed, whatever their mode
+  nosuid: boolean;   // nosuid: setuid and setgid bits are ignored
+  driverOptions: FileSystemOptions; // Passed to the filesystem driver, e.g. size= for tmpfs
+}
+
+export const DEFAULT_MOUNT_OPTIONS: MountOptions = {
+  readOnly: false,
+  noexec: false,
+  nosuid: false,
+  driverOptions: {}
+};
+
+// Apply options given to mount -o on top of existing ones. Generic flags are picked
+// out; anything else is left for the driver.
+export function applyMountOptions(base: MountOptions, options: FileSystemOptions): MountOptions {
+  const result: MountOptions = { ...base, driverOptions: { ...base.driverOptions } };
+
+  for (const [key, value] of Object.entries(options)) {
+    switch (key) {
+      case 'ro': result.readOnly = true; break;
+      case 'rw': result.readOnly = false; break;
+      case 'noexec': result.noexec = true; break;
+      case 'exec': result.noexec = false; break;
+      case 'nosuid': result.nosuid = true; break;
+      case 'suid': result.nosuid = false; break;
+      case 'defaults':
+      case 'remount':
+        break;
+      default:
+        result.driverOptions[key] = value;
+    }
+  }
+
+  return result;
+}
+
+// Render options the way /proc/mounts shows them, e.g. "ro,nosuid,noexec,size=16M"
+export function formatMountOptions(options: MountOptions): string {
+  const flags = [options.readOnly ? 'ro' : 'rw'];
+  if (options.nosuid) flags.push('nosuid');
+  if (options.noexec) flags.push('noexec');
+
+  for (const [key, value] of Object.entries(options.driverOptions)) {
+    flags.push(value === '' ? key : `${key}=${value}`);
+  }
+  return flags.join(',');
+}
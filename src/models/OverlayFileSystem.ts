@@ -0,0 +1,51 @@
+import { CharacterDevice, DeviceNode, FileSystem, FileSystemNode, FileSystemNodeType } from './FileSystem';
+import { ProcessContext } from './Permissions';
+
+// Whiteouts are 0/0 character devices left in the upper directory to hide a deleted
+// lower entry, as on Linux. Like the real thing, they read and write nothing.
+export const WHITEOUT_DEVICE: CharacterDevice = {
+  major: 0,
+  minor: 0,
+  read: () => new Uint8Array(0),
+  write: () => {}
+};
+
+// Check whether a node is a whiteout
+export function isWhiteout(node: FileSystemNode | null): boolean {
+  if (node?.type !== FileSystemNodeType.DEVICE) return false;
+  const { major, minor } = (node as DeviceNode).device;
+  return major === 0 && minor === 0;
+}
+
+// Union of a lower directory, which is never changed, and an upper directory that takes
+// every change. The layers are directories elsewhere in the mount table; MountManager
+// resolves each path to the layer holding it. Nothing is stored here: the empty tree
+// stands for paths that don't exist in the merged view.
+export class OverlayFileSystem extends FileSystem {
+  lowerDir: string; // Absolute path of the read-only layer
+  upperDir: string; // Absolute path of the writable layer
+  private opaqueDirectories = new Set<string>();
+
+  constructor(name: string, context: ProcessContext, lowerDir: string, upperDir: string) {
+    super(name, 'overlay', context);
+    this.lowerDir = lowerDir;
+    this.upperDir = upperDir;
+  }
+
+  // Mark a directory as opaque: it was created where a lower directory had been
+  // deleted, so the lower directory's contents must stay hidden
+  markOpaque(path: string): void {
+    this.opaqueDirectories.add(path);
+    this.version++;
+  }
+
+  // Check whether a directory hides the lower directory at the same path
+  isOpaque(path: string): boolean {
+    return this.opaqueDirectories.has(path);
+  }
+
+  // Every opaque directory, for saving
+  getOpaqueDirectories(): string[] {
+    return Array.from(this.opaqueDirectories);
+  }
+}
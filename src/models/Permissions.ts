@@ -0,0 +1,158 @@
+// Special mode bits
+export const S_ISUID = 0o4000; // Set user ID on execution
+export const S_ISGID = 0o2000; // Set group ID on execution / inherit group in directories
+export const S_ISVTX = 0o1000; // Sticky bit: only owners may delete entries in a directory
+
+// Access checks, as passed to access(2)
+export const R_OK = 4;
+export const W_OK = 2;
+export const X_OK = 1;
+
+// Modes used before the umask is applied
+export const DEFAULT_FILE_MODE = 0o666;
+export const DEFAULT_DIRECTORY_MODE = 0o777;
+export const DEFAULT_UMASK = 0o022;
+
+// Identity a filesystem operation is performed as
+export interface Credentials {
+  uid: number;
+  gid: number;
+  groups: number[]; // Supplementary group IDs
+}
+
+// Per-session state shared by every mounted filesystem
+export interface ProcessContext {
+  credentials: Credentials;
+  umask: number;
+}
+
+// Ownership and permission fields carried by every node
+export interface NodeOwnership {
+  mode: number; // Permission bits, including setuid/setgid/sticky
+  uid: number;
+  gid: number;
+}
+
+export const ROOT_CREDENTIALS: Credentials = { uid: 0, gid: 0, groups: [0] };
+
+// Create a context for a session running as root
+export function createProcessContext(): ProcessContext {
+  return {
+    credentials: { ...ROOT_CREDENTIALS, groups: [...ROOT_CREDENTIALS.groups] },
+    umask: DEFAULT_UMASK
+  };
+}
+
+// Check whether the credentials belong to a group
+export function isGroupMember(credentials: Credentials, gid: number): boolean {
+  return credentials.gid === gid || credentials.groups.includes(gid);
+}
+
+// Check the requested R_OK/W_OK/X_OK bits against a node's owner, group and other bits
+export function hasAccess(
+  node: NodeOwnership,
+  isDirectory: boolean,
+  credentials: Credentials,
+  access: number
+): boolean {
+  if (credentials.uid === 0) {
+    // Root can read and write anything, but only execute files with an execute bit set
+    if (!(access & X_OK) || isDirectory) return true;
+    return (node.mode & 0o111) !== 0;
+  }
+
+  let granted: number;
+  if (node.uid === credentials.uid) {
+    granted = (node.mode >> 6) & 7;
+  } else if (isGroupMember(credentials, node.gid)) {
+    granted = (node.mode >> 3) & 7;
+  } else {
+    granted = node.mode & 7;
+  }
+
+  return (granted & access) === access;
+}
+
+// Render a mode as ls -l does, e.g. "drwxr-sr-x"
+export function formatMode(mode: number, typeChar: string): string {
+  const triplet = (bits: number, special: boolean, specialChar: string) => {
+    const execute = bits & 1;
+    let last = execute ? 'x' : '-';
+    if (special) {
+      last = execute ? specialChar : specialChar.toUpperCase();
+    }
+    return `${bits & 4 ? 'r' : '-'}${bits & 2 ? 'w' : '-'}${last}`;
+  };
+
+  return typeChar +
+    triplet((mode >> 6) & 7, (mode & S_ISUID) !== 0, 's') +
+    triplet((mode >> 3) & 7, (mode & S_ISGID) !== 0, 's') +
+    triplet(mode & 7, (mode & S_ISVTX) !== 0, 't');
+}
+
+// Render a mode as four octal digits, e.g. "0755"
+export function formatOctalMode(mode: number): string {
+  return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+// Parse a chmod mode, either octal ("755") or symbolic ("u+x,go-w", "a=rX", "+t").
+// Returns null if the spec is invalid.
+export function parseMode(
+  spec: string,
+  currentMode: number,
+  isDirectory: boolean,
+  umask: number = 0
+): number | null {
+  if (/^[0-7]{1,4}$/.test(spec)) {
+    return parseInt(spec, 8);
+  }
+
+  let mode = currentMode;
+
+  for (const clause of spec.split(',')) {
+    const match = /^([ugoa]*)((?:[+\-=][rwxXst]*)+)$/.exec(clause);
+    if (!match) {
+      return null;
+    }
+
+    const who = match[1];
+    let whoMask = 0;
+    if (!who || who.includes('a') || who.includes('u')) whoMask |= 0o700 | S_ISUID;
+    if (!who || who.includes('a') || who.includes('g')) whoMask |= 0o070 | S_ISGID;
+    if (!who || who.includes('a') || who.includes('o')) whoMask |= 0o007 | S_ISVTX;
+
+    const operations = match[2].matchAll(/([+\-=])([rwxXst]*)/g);
+    for (const [, operator, perms] of operations) {
+      let bits = 0;
+      for (const perm of perms) {
+        switch (perm) {
+          case 'r': bits |= 0o444; break;
+          case 'w': bits |= 0o222; break;
+          case 'x': bits |= 0o111; break;
+          case 'X':
+            // Execute only for directories or files that are already executable by someone
+            if (isDirectory || (mode & 0o111)) bits |= 0o111;
+            break;
+          case 's': bits |= S_ISUID | S_ISGID; break;
+          case 't': bits |= S_ISVTX; break;
+        }
+      }
+
+      bits &= whoMask;
+      if (!who) {
+        // Without an explicit "who", bits masked by the umask are left alone
+        bits &= ~umask;
+      }
+
+      if (operator === '+') {
+        mode |= bits;
+      } else if (operator === '-') {
+        mode &= ~bits;
+      } else {
+        mode = (mode & ~whoMask) | bits;
+      }
+    }
+  }
+
+  return mode & 0o7777;
+}
@@ -0,0 +1,196 @@
+import { FileSystem } from './FileSystem';
+import { MountManager } from './MountManager';
+import { SerializedFileSystem, SerializedSystem, serializeFileSystem } from './Serialization';
+
+export const DATABASE_NAME = 'virtual-file-explorer';
+const DATABASE_VERSION = 1;
+const FILESYSTEM_STORE = 'filesystems'; // One saved tree per filesystem, keyed by ID
+const SYSTEM_STORE = 'system';          // The mount table and shell state, under SYSTEM_KEY
+const SYSTEM_KEY = 'state';
+
+// How long to wait after the last change before saving, so a burst of commands is written once
+export const SAVE_DELAY_MS = 500;
+
+// What one save wrote
+export interface SyncResult {
+  written: number; // Filesystems saved because they changed
+  removed: number; // Saved filesystems dropped because they're no longer mounted
+}
+
+// Wait for an IndexedDB request to finish
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Wait for an IndexedDB transaction to commit
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Keeps the whole system in IndexedDB so it survives a page reload. Changes are saved
+// shortly after they stop coming in, rewriting only the filesystems whose version moved
+// since they were last saved, together with the mount table, in one transaction.
+export class PersistenceManager {
+  private mountManager: MountManager;
+  private factory: IDBFactory | undefined;
+  private database: Promise<IDBDatabase> | null = null;
+  private ids = new Map<FileSystem, number>();           // Key each filesystem is saved under
+  private nextId = 0;
+  private savedVersions = new Map<FileSystem, number>(); // FileSystem.version when last saved
+  private savedSystem: string | null = null;             // The last saved system record, as JSON
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private saving: Promise<SyncResult> = Promise.resolve({ written: 0, removed: 0 });
+  private stopped = false; // Set by reset, so nothing is written afterwards
+
+  constructor(mountManager: MountManager, factory: IDBFactory | undefined = globalThis.indexedDB) {
+    this.mountManager = mountManager;
+    this.factory = factory;
+  }
+
+  // Check whether there is anywhere to save to
+  isAvailable(): boolean {
+    return this.factory !== undefined;
+  }
+
+  // Open the database, creating the stores on first use
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory!.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(FILESYSTEM_STORE);
+        request.result.createObjectStore(SYSTEM_STORE);
+      };
+      this.database = requestResult(request);
+    }
+    return this.database;
+  }
+
+  // Key a filesystem is saved under, assigning one the first time it's seen
+  private idOf(fs: FileSystem): number {
+    let id = this.ids.get(fs);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.ids.set(fs, id);
+    }
+    return id;
+  }
+
+  // Load the saved system into the mount manager. Resolves to false if nothing was saved.
+  async restore(): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    const database = await this.open();
+    const transaction = database.transaction([FILESYSTEM_STORE, SYSTEM_STORE], 'readonly');
+    const filesystemStore = transaction.objectStore(FILESYSTEM_STORE);
+    const [state, keys, records] = await Promise.all([
+      requestResult<SerializedSystem | undefined>(transaction.objectStore(SYSTEM_STORE).get(SYSTEM_KEY)),
+      requestResult(filesystemStore.getAllKeys()),
+      requestResult<SerializedFileSystem[]>(filesystemStore.getAll())
+    ]);
+    if (!state) {
+      return false;
+    }
+
+    const filesystems: Record<number, SerializedFileSystem> = {};
+    keys.forEach((key, i) => { filesystems[Number(key)] = records[i]; });
+
+    const restored = this.mountManager.restoreState(state, filesystems);
+    restored.forEach((fs, id) => {
+      this.ids.set(fs, id);
+      this.savedVersions.set(fs, fs.version);
+      this.nextId = Math.max(this.nextId, id + 1);
+    });
+    this.savedSystem = JSON.stringify(this.mountManager.saveState(fs => this.idOf(fs)));
+    return true;
+  }
+
+  // Save once changes have stopped coming in for a moment
+  scheduleSave(): void {
+    if (this.stopped || !this.isAvailable()) {
+      return;
+    }
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+    }
+    // A failed save is retried by the next one, since nothing is marked as saved
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.sync().catch(() => {});
+    }, SAVE_DELAY_MS);
+  }
+
+  // Save every change now (the sync command). Saves run one at a time, in order.
+  sync(): Promise<SyncResult> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.saving = this.saving
+      .catch(() => ({ written: 0, removed: 0 }))
+      .then(() => this.save());
+    return this.saving;
+  }
+
+  // Erase everything saved (the reset command). Nothing is saved afterwards, so the
+  // page can be reloaded into a fresh system.
+  async reset(): Promise<void> {
+    this.stopped = true;
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.saving.catch(() => undefined);
+    if (!this.isAvailable()) {
+      return;
+    }
+
+    const database = await this.open();
+    const transaction = database.transaction([FILESYSTEM_STORE, SYSTEM_STORE], 'readwrite');
+    transaction.objectStore(FILESYSTEM_STORE).clear();
+    transaction.objectStore(SYSTEM_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  // Write the changed filesystems and the mount table in one transaction
+  private async save(): Promise<SyncResult> {
+    if (this.stopped || !this.isAvailable()) {
+      return { written: 0, removed: 0 };
+    }
+
+    // Everything below runs without yielding, so the saved state is consistent
+    const database = await this.open();
+    const mounted = new Set(this.mountManager.getMounts().map(m => m.filesystem));
+    const changed = Array.from(mounted).filter(fs => this.savedVersions.get(fs) !== fs.version);
+    const unmounted = Array.from(this.ids.keys()).filter(fs => !mounted.has(fs));
+    const state = this.mountManager.saveState(fs => this.idOf(fs));
+    const system = JSON.stringify(state);
+    if (changed.length === 0 && unmounted.length === 0 && system === this.savedSystem) {
+      return { written: 0, removed: 0 };
+    }
+
+    const transaction = database.transaction([FILESYSTEM_STORE, SYSTEM_STORE], 'readwrite');
+    const filesystemStore = transaction.objectStore(FILESYSTEM_STORE);
+    const versions = changed.map(fs => fs.version);
+    changed.forEach(fs => filesystemStore.put(serializeFileSystem(fs), this.idOf(fs)));
+    unmounted.forEach(fs => filesystemStore.delete(this.idOf(fs)));
+    transaction.objectStore(SYSTEM_STORE).put(state, SYSTEM_KEY);
+    await transactionDone(transaction);
+
+    changed.forEach((fs, i) => this.savedVersions.set(fs, versions[i]));
+    unmounted.forEach(fs => {
+      this.ids.delete(fs);
+      this.savedVersions.delete(fs);
+    });
+    this.savedSystem = system;
+    return { written: changed.length, removed: unmounted.length };
+  }
+}
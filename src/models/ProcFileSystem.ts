@@ -0,0 +1,177 @@
+import {
+  DirectoryNode,
+  FileNode,
+  FileSystem,
+  FileSystemNode,
+  FileSystemNodeType,
+  SymlinkNode,
+  createDirectoryNode,
+  createFileNode,
+  createSymlinkNode
+} from './FileSystem';
+import { encodeText } from './FileContent';
+import { SystemInfo } from './FileSystemDriver';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { formatMountOptions } from './MountOptions';
+import { ProcessContext } from './Permissions';
+
+// Memory reported by /proc/meminfo as the machine's total
+export const SIMULATED_MEMORY_BYTES = 1024 ** 3;
+
+// Round bytes up to the kB figures meminfo uses, padded the way the kernel aligns them
+const formatKilobytes = (label: string, bytes: number) =>
+  `${`${label}:`.padEnd(16)}${String(Math.ceil(bytes / 1024)).padStart(8)} kB`;
+
+// /proc/mounts: one "device mount-point type options dump pass" line per mount
+function generateMounts(system: SystemInfo): string {
+  return system.getMounts()
+    .map(m => `${m.filesystem.fsType} ${m.path} ${m.filesystem.fsType} ${formatMountOptions(m.options)} 0 0\n`)
+    .join('');
+}
+
+// /proc/filesystems: every type mount accepts. None of them need a block device.
+function generateFilesystems(system: SystemInfo): string {
+  return system.getDriverRegistry().getSupportedTypes().map(type => `nodev\t${type}\n`).join('');
+}
+
+// /proc/meminfo: all file content lives in memory, so it is reported as page cache,
+// with tmpfs content also counted as shared memory
+function generateMeminfo(system: SystemInfo): string {
+  const filesystems = new Set(system.getMounts().map(m => m.filesystem));
+  let cached = 0;
+  let shmem = 0;
+  filesystems.forEach(fs => {
+    const used = fs.getUsedBytes();
+    cached += used;
+    if (fs.fsType === 'tmpfs') shmem += used;
+  });
+
+  const free = Math.max(0, SIMULATED_MEMORY_BYTES - cached);
+  return [
+    formatKilobytes('MemTotal', SIMULATED_MEMORY_BYTES),
+    formatKilobytes('MemFree', free),
+    formatKilobytes('MemAvailable', free),
+    formatKilobytes('Cached', cached),
+    formatKilobytes('Shmem', shmem)
+  ].join('\n') + '\n';
+}
+
+// /proc/uptime: seconds since boot, and idle time (this machine never idles)
+function generateUptime(system: SystemInfo): string {
+  return `${system.getUptime().toFixed(2)} 0.00\n`;
+}
+
+// /proc/self/history: the commands typed into the terminal, oldest first
+function generateHistory(system: SystemInfo): string {
+  return system.getCommandHistory().map(command => `${command}\n`).join('');
+}
+
+// Synthetic read-only filesystem describing the live system. File contents (and the
+// /proc/self/cwd link target) are regenerated whenever they are looked up.
+export class ProcFileSystem extends FileSystem {
+  private system: SystemInfo;
+  private generators = new Map<FileSystemNode, () => string>();
+
+  constructor(name: string, context: ProcessContext, system: SystemInfo) {
+    super(name, 'proc', context);
+    this.system = system;
+    this.root.mode = 0o555;
+
+    this.addFile('/mounts', generateMounts);
+    this.addFile('/filesystems', generateFilesystems);
+    this.addFile('/meminfo', generateMeminfo);
+    this.addFile('/uptime', generateUptime);
+    this.addFile('/self/history', generateHistory);
+    this.addLink('/self/cwd', () => this.system.getPhysicalDirectory());
+  }
+
+  // Create the directories leading to a path and return the parent and entry name
+  private prepareEntry(path: string): { parent: DirectoryNode, name: string } {
+    const segments = path.split('/').filter(seg => seg !== '');
+    const name = segments.pop() ?? '';
+    let parent = this.root;
+
+    for (const segment of segments) {
+      let child = parent.children.get(segment);
+      if (!child) {
+        child = createDirectoryNode(segment, parent, 0o555);
+        parent.children.set(segment, child);
+      }
+      parent = child as DirectoryNode;
+    }
+
+    return { parent, name };
+  }
+
+  // Add a read-only file whose content comes from a generator
+  private addFile(path: string, generate: (system: SystemInfo) => string): void {
+    const { parent, name } = this.prepareEntry(path);
+    const node = createFileNode(name, parent, '', 0o444);
+    parent.children.set(name, node);
+    this.generators.set(node, () => generate(this.system));
+  }
+
+  // Add a symbolic link whose target comes from a generator
+  private addLink(path: string, target: () => string): void {
+    const { parent, name } = this.prepareEntry(path);
+    const node = createSymlinkNode(name, parent, '/');
+    parent.children.set(name, node);
+    this.generators.set(node, target);
+  }
+
+  // Regenerate a node's content or link target
+  private refresh(node: FileSystemNode): void {
+    const generate = this.generators.get(node);
+    if (!generate) return;
+
+    if (node.type === FileSystemNodeType.FILE) {
+      (node as FileNode).content = encodeText(generate());
+    } else if (node.type === FileSystemNodeType.SYMLINK) {
+      (node as SymlinkNode).target = generate();
+    }
+  }
+
+  // Find a node, bringing generated content up to date
+  lookup(path: string, currentDir: string = '/', followLast: boolean = true): FileSystemNode {
+    const node = super.lookup(path, currentDir, followLast);
+    this.refresh(node);
+    return node;
+  }
+
+  // List a directory with up-to-date sizes
+  listDirectory(path: string, currentDir: string = '/'): FileSystemNode[] {
+    const nodes = super.listDirectory(path, currentDir);
+    nodes.forEach(node => this.refresh(node));
+    return nodes;
+  }
+
+  // Generated files take up no space
+  getUsedBytes(): number {
+    return 0;
+  }
+
+  // Everything here is generated, so there's nothing to save
+  isPersistent(): boolean {
+    return false;
+  }
+
+  // Throw EROFS for an attempted modification
+  private readOnly(path: string): never {
+    throw new FileSystemError(ErrorCode.EROFS, path);
+  }
+
+  // Every operation that would modify the tree is refused
+  mkdir(path: string): void { this.readOnly(path); }
+  createFile(path: string): void { this.readOnly(path); }
+  writeFile(path: string): void { this.readOnly(path); }
+  remove(path: string): void { this.readOnly(path); }
+  rmdir(path: string): void { this.readOnly(path); }
+  rename(oldPath: string): void { this.readOnly(oldPath); }
+  symlink(_target: string, path: string): void { this.readOnly(path); }
+  link(_existingPath: string, newPath: string): void { this.readOnly(newPath); }
+  mknod(path: string): void { this.readOnly(path); }
+  chmod(path: string): void { this.readOnly(path); }
+  chown(path: string): void { this.readOnly(path); }
+  chgrp(path: string): void { this.readOnly(path); }
+  utimes(path: string): void { this.readOnly(path); }
+}
@@ -0,0 +1,212 @@
+import {
+  CharacterDevice,
+  DeviceNode,
+  DirectoryNode,
+  FileInode,
+  FileNode,
+  FileSystem,
+  FileSystemNode,
+  FileSystemNodeType,
+  SymlinkNode,
+  createDeviceNode,
+  createDirectoryNode,
+  createHardLinkNode,
+  createSymlinkNode
+} from './FileSystem';
+import { FileSystemSnapshot } from './FileSystemSnapshot';
+import { MountOptions } from './MountOptions';
+import { OverlayFileSystem, WHITEOUT_DEVICE } from './OverlayFileSystem';
+import { Credentials } from './Permissions';
+import { ZipFileSystem, ZipSource } from './ZipFileSystem';
+
+// A node as plain data. Times are milliseconds since the epoch; for files, the mode,
+// owner and times are those of the shared inode.
+export interface SerializedNode {
+  name: string;
+  type: FileSystemNodeType;
+  createdAt: number;
+  atime: number;
+  mtime: number;
+  ctime: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  content?: number;   // Files: index into SerializedFileSystem.contents, shared by hard links
+  target?: string;    // Symbolic links
+  device?: { major: number, minor: number }; // Device nodes
+  children?: [string, SerializedNode][];     // Directories: entries by the key they're stored under
+}
+
+// A filesystem's tree as plain data, which can be structured-cloned (into IndexedDB, say)
+export interface SerializedFileSystem {
+  name: string;
+  fsType: string;
+  root: SerializedNode | null; // null for filesystems that aren't persistent
+  contents: Uint8Array[];      // File contents, once per inode
+  opaqueDirectories?: string[]; // Overlays only
+  archive?: ZipSource;          // Zip mounts only: the archive the tree is rebuilt from
+  snapshots?: FileSystemSnapshot[]; // Already plain data; cloning keeps what they share with each other shared
+}
+
+// A mount table entry, naming its filesystem by an ID
+export interface SerializedMount {
+  path: string;
+  filesystem: number;
+  root: string;
+  options: MountOptions;
+}
+
+// The mount table and shell state as plain data
+export interface SerializedSystem {
+  mounts: SerializedMount[]; // In mount order, starting with /
+  directory: string;         // Working directory
+  credentials: Credentials;
+  umask: number;
+  sessions: { credentials: Credentials, directory: string }[]; // Shells suspended by su
+}
+
+// Turn a filesystem's tree into plain data
+export function serializeFileSystem(fs: FileSystem): SerializedFileSystem {
+  const contents: Uint8Array[] = [];
+  const contentIndexes = new Map<FileInode, number>();
+
+  const serializeNode = (node: FileSystemNode): SerializedNode => {
+    const data: SerializedNode = {
+      name: node.name,
+      type: node.type,
+      createdAt: node.createdAt.getTime(),
+      atime: node.atime.getTime(),
+      mtime: node.mtime.getTime(),
+      ctime: node.ctime.getTime(),
+      mode: node.mode,
+      uid: node.uid,
+      gid: node.gid
+    };
+
+    switch (node.type) {
+      case FileSystemNodeType.FILE: {
+        const { inode } = node as FileNode;
+        let index = contentIndexes.get(inode);
+        if (index === undefined) {
+          index = contents.push(inode.content) - 1;
+          contentIndexes.set(inode, index);
+        }
+        data.content = index;
+        break;
+      }
+      case FileSystemNodeType.SYMLINK:
+        data.target = (node as SymlinkNode).target;
+        break;
+      case FileSystemNodeType.DEVICE: {
+        const { major, minor } = (node as DeviceNode).device;
+        data.device = { major, minor };
+        break;
+      }
+      case FileSystemNodeType.DIRECTORY:
+        data.children = Array.from((node as DirectoryNode).children, ([key, child]) => [key, serializeNode(child)]);
+        break;
+    }
+    return data;
+  };
+
+  return {
+    name: fs.name,
+    fsType: fs.fsType,
+    root: fs.isPersistent() ? serializeNode(fs.root) : null,
+    contents,
+    ...(fs instanceof OverlayFileSystem ? { opaqueDirectories: fs.getOpaqueDirectories() } : {}),
+    ...(fs instanceof ZipFileSystem && fs.getSource() ? { archive: fs.getSource()! } : {}),
+    ...(fs.isPersistent() && fs.snapshots.length > 0 ? { snapshots: fs.snapshots } : {})
+  };
+}
+
+// Replace a freshly created filesystem's tree with a saved one. Device nodes get back
+// the device with the same numbers that the filesystem started out with (or become
+// whiteouts); nodes for devices it doesn't have are left out. Zip mounts are rebuilt
+// from their saved archive.
+export function restoreFileSystem(fs: FileSystem, data: SerializedFileSystem): void {
+  if (fs instanceof OverlayFileSystem) {
+    data.opaqueDirectories?.forEach(path => fs.markOpaque(path));
+  }
+  if (fs instanceof ZipFileSystem && data.archive) {
+    fs.load(data.archive);
+  }
+  if (!data.root || !fs.isPersistent()) {
+    return;
+  }
+
+  const deviceKey = ({ major, minor }: { major: number, minor: number }) => `${major}:${minor}`;
+  const devices = new Map<string, CharacterDevice>([[deviceKey(WHITEOUT_DEVICE), WHITEOUT_DEVICE]]);
+  const collectDevices = (node: FileSystemNode) => {
+    if (node.type === FileSystemNodeType.DEVICE) {
+      const { device } = node as DeviceNode;
+      devices.set(deviceKey(device), device);
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
+      (node as DirectoryNode).children.forEach(collectDevices);
+    }
+  };
+  collectDevices(fs.root);
+
+  const inodes = new Map<number, FileInode>();
+
+  const applyAttributes = (node: FileSystemNode, saved: SerializedNode) => {
+    node.createdAt = new Date(saved.createdAt);
+    node.atime = new Date(saved.atime);
+    node.mtime = new Date(saved.mtime);
+    node.ctime = new Date(saved.ctime);
+    node.mode = saved.mode;
+    node.uid = saved.uid;
+    node.gid = saved.gid;
+  };
+
+  const restoreNode = (saved: SerializedNode, parent: DirectoryNode): FileSystemNode | null => {
+    let node: FileSystemNode;
+    switch (saved.type) {
+      case FileSystemNodeType.FILE: {
+        const index = saved.content ?? -1;
+        let inode = inodes.get(index);
+        if (!inode) {
+          const now = new Date();
+          inode = {
+            content: data.contents[index] ?? new Uint8Array(0),
+            nlink: 0, mode: saved.mode, uid: saved.uid, gid: saved.gid, atime: now, mtime: now, ctime: now
+          };
+          inodes.set(index, inode);
+        }
+        node = createHardLinkNode(saved.name, parent, inode);
+        break;
+      }
+      case FileSystemNodeType.SYMLINK:
+        node = createSymlinkNode(saved.name, parent, saved.target ?? '');
+        break;
+      case FileSystemNodeType.DEVICE: {
+        const device = saved.device && devices.get(deviceKey(saved.device));
+        if (!device) return null;
+        node = createDeviceNode(saved.name, parent, device);
+        break;
+      }
+      default: {
+        const directory = createDirectoryNode(saved.name, parent);
+        restoreChildren(directory, saved.children);
+        node = directory;
+      }
+    }
+    applyAttributes(node, saved);
+    return node;
+  };
+
+  const restoreChildren = (directory: DirectoryNode, children: [string, SerializedNode][] = []) => {
+    directory.children.clear();
+    for (const [key, child] of children) {
+      const node = restoreNode(child, directory);
+      if (node) {
+        directory.children.set(key, node);
+      }
+    }
+  };
+
+  restoreChildren(fs.root, data.root.children);
+  applyAttributes(fs.root, data.root);
+  fs.frozenDirectories.delete(fs.root); // Everything below it is new
+  fs.snapshots = data.snapshots ?? [];
+}
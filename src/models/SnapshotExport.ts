@@ -0,0 +1,330 @@
+import { z } from 'zod';
+import { decodeBase64, encodeBase64 } from './FileContent';
+import { FileInode, FileNode, FileSystemNodeType, SymlinkNode } from './FileSystem';
+import { parseFileSystemOptions } from './FileSystemDriver';
+import { FileSystemError } from './FileSystemError';
+import { MountManager } from './MountManager';
+import { formatMountOptions } from './MountOptions';
+import { OverlayFileSystem } from './OverlayFileSystem';
+import { ZipFileSystem } from './ZipFileSystem';
+
+export const SNAPSHOT_FORMAT = 'vfs-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+// Error raised for snapshot files that can't be read (bad JSON, wrong format or version, ...)
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+// Attributes every exported node carries. Times are ISO 8601 strings.
+interface SnapshotNodeBase {
+  name: string;
+  mode: number;
+  uid: number;
+  gid: number;
+  createdAt: string;
+  atime: string;
+  mtime: string;
+  ctime: string;
+}
+
+// A node in a snapshot. Files refer to their content by index, so hard links stay linked.
+export type SnapshotNode =
+  | SnapshotNodeBase & { type: FileSystemNodeType.FILE, content: number }
+  | SnapshotNodeBase & { type: FileSystemNodeType.SYMLINK, target: string }
+  | SnapshotNodeBase & { type: FileSystemNodeType.DIRECTORY, children: SnapshotNode[] };
+
+const nodeBaseSchema = z.object({
+  name: z.string(),
+  mode: z.number().int().min(0).max(0o7777),
+  uid: z.number().int().min(0),
+  gid: z.number().int().min(0),
+  createdAt: z.string().datetime(),
+  atime: z.string().datetime(),
+  mtime: z.string().datetime(),
+  ctime: z.string().datetime()
+});
+
+// Typed by hand because the schema refers to itself
+const nodeSchema: z.ZodType<SnapshotNode> = z.lazy(() => z.discriminatedUnion('type', [
+  nodeBaseSchema.extend({ type: z.literal(FileSystemNodeType.FILE), content: z.number().int().min(0) }),
+  nodeBaseSchema.extend({ type: z.literal(FileSystemNodeType.SYMLINK), target: z.string() }),
+  nodeBaseSchema.extend({ type: z.literal(FileSystemNodeType.DIRECTORY), children: z.array(nodeSchema) })
+])) as z.ZodType<SnapshotNode>;
+
+// Just enough to recognise a snapshot and its version before checking the rest
+const headerSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.number().int()
+});
+
+const snapshotSchema = z.object({
+  format: z.literal(SNAPSHOT_FORMAT),
+  version: z.literal(SNAPSHOT_VERSION),
+  exportedAt: z.string().datetime(),
+  path: z.string().startsWith('/'), // Where the tree was exported from
+  root: nodeSchema,
+  contents: z.array(z.string().base64()), // File contents, once per inode
+  mounts: z.array(z.object({
+    path: z.string().startsWith('/'), // Relative to the exported directory, e.g. "/tmp"
+    fsType: z.string(),
+    options: z.string() // As shown by /proc/mounts, e.g. "ro,size=16M"
+  }))
+}).superRefine((snapshot, context) => {
+  const checkContent = (node: SnapshotNode) => {
+    if (node.type === FileSystemNodeType.FILE && node.content >= snapshot.contents.length) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: `file '${node.name}' has no content ${node.content}` });
+    } else if (node.type === FileSystemNodeType.DIRECTORY) {
+      node.children.forEach(checkContent);
+    }
+  };
+  checkContent(snapshot.root);
+});
+
+// A subtree of the merged view, with the filesystems mounted inside it
+export type Snapshot = z.infer<typeof snapshotSchema>;
+
+// What importing a snapshot did
+export interface ImportResult {
+  imported: number;  // Nodes created or updated
+  mounted: string[]; // Mount points created for the snapshot's filesystems
+  errors: string[];  // Problems with single entries, which were skipped
+}
+
+// Join a path and a relative one starting with '/'
+const joinPath = (directory: string, relativePath: string) =>
+  relativePath === '/' ? directory : `${directory === '/' ? '' : directory}${relativePath}`;
+
+// Export the tree at a path as it's seen through the mount table, reading it with the
+// current credentials. Filesystems mounted inside it are recorded so an import can
+// mount the same types again; bind, overlay and zip mounts are exported as plain
+// directories, generated trees such as proc are left empty and devices are left out.
+export function createSnapshot(mountManager: MountManager, path: string): Snapshot {
+  const source = mountManager.realpath(path);
+  const mounts = mountManager.getMounts();
+  const contents: string[] = [];
+  const contentIndexes = new Map<FileInode, number>();
+
+  const exportNode = (nodePath: string): SnapshotNode | null => {
+    const node = mountManager.lstat(nodePath);
+    const base = {
+      name: node.name,
+      mode: node.mode,
+      uid: node.uid,
+      gid: node.gid,
+      createdAt: node.createdAt.toISOString(),
+      atime: node.atime.toISOString(),
+      mtime: node.mtime.toISOString(),
+      ctime: node.ctime.toISOString()
+    };
+
+    switch (node.type) {
+      case FileSystemNodeType.FILE: {
+        const { inode } = node as FileNode;
+        let index = contentIndexes.get(inode);
+        if (index === undefined) {
+          index = contents.push(encodeBase64(mountManager.readFileBytes(nodePath))) - 1;
+          contentIndexes.set(inode, index);
+        }
+        return { ...base, type: FileSystemNodeType.FILE, content: index };
+      }
+      case FileSystemNodeType.SYMLINK:
+        return { ...base, type: FileSystemNodeType.SYMLINK, target: (node as SymlinkNode).target };
+      case FileSystemNodeType.DIRECTORY: {
+        const mount = mounts.find(m => m.path === nodePath);
+        const children = mount && !mount.filesystem.isPersistent() && !(mount.filesystem instanceof ZipFileSystem)
+          ? []
+          : mountManager.listDirectory(nodePath)
+            .map(child => exportNode(joinPath(nodePath, `/${child.name}`)))
+            .filter((child): child is SnapshotNode => child !== null);
+        return { ...base, type: FileSystemNodeType.DIRECTORY, children };
+      }
+      default:
+        return null;
+    }
+  };
+
+  const root = exportNode(source);
+  if (!root) {
+    throw new SnapshotError(`${source}: only files, directories and symbolic links can be exported`);
+  }
+
+  const prefix = source === '/' ? '/' : `${source}/`;
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    path: source,
+    root,
+    contents,
+    mounts: mounts
+      .filter(m => m.path !== source && m.path.startsWith(prefix))
+      .filter(m => m.root === '/' && !(m.filesystem instanceof OverlayFileSystem) && !(m.filesystem instanceof ZipFileSystem))
+      .map(m => ({
+        path: m.path.substring(prefix.length - 1),
+        fsType: m.filesystem.fsType,
+        options: formatMountOptions(m.options)
+      }))
+  };
+}
+
+// Render a snapshot as the JSON stored in snapshot files
+export function formatSnapshot(snapshot: Snapshot): string {
+  return JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+// Read a snapshot file, checking it against the schema
+export function parseSnapshot(text: string): Snapshot {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SnapshotError('not a snapshot: invalid JSON');
+  }
+
+  const header = headerSchema.safeParse(json);
+  if (!header.success) {
+    throw new SnapshotError('not a snapshot file');
+  }
+  if (header.data.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(`unsupported snapshot version ${header.data.version} (expected ${SNAPSHOT_VERSION})`);
+  }
+
+  const result = snapshotSchema.safeParse(json);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const where = issue.path.length > 0 ? issue.path.join('.') : 'top level';
+    throw new SnapshotError(`invalid snapshot at ${where}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Recreate a snapshot at a path with the current credentials. A directory's entries go
+// inside the path, which is created if needed; a file or link is put inside it if it's
+// a directory and at the path otherwise. The snapshot's filesystems are mounted first
+// (read-only ones are made read-only once filled). Ownership is only kept when running
+// as root. Entries that fail are reported and skipped.
+export function importSnapshot(mountManager: MountManager, snapshot: Snapshot, path: string): ImportResult {
+  const result: ImportResult = { imported: 0, mounted: [], errors: [] };
+  const linkedPaths = new Map<number, string>(); // First path each content was written to
+  const isRoot = mountManager.getCredentials().uid === 0;
+
+  // Run one step, recording a filesystem error instead of giving up
+  const attempt = (target: string, step: () => void): boolean => {
+    try {
+      step();
+      return true;
+    } catch (error) {
+      if (!(error instanceof FileSystemError)) {
+        throw error;
+      }
+      result.errors.push(`${target}: ${error.description}`);
+      return false;
+    }
+  };
+
+  const applyAttributes = (target: string, node: SnapshotNode) => {
+    // Symbolic links keep their own attributes; changing them would change the target's
+    if (node.type === FileSystemNodeType.SYMLINK) return;
+    attempt(target, () => {
+      if (isRoot) {
+        mountManager.chown(target, node.uid, node.gid);
+      }
+      mountManager.chmod(target, node.mode);
+      mountManager.utimes(target, new Date(node.atime), new Date(node.mtime));
+    });
+  };
+
+  // Remove anything but a directory in the way of a new entry
+  const clearPath = (target: string) => {
+    let node;
+    try {
+      node = mountManager.lstat(target);
+    } catch {
+      return;
+    }
+    if (node.type !== FileSystemNodeType.DIRECTORY) {
+      mountManager.remove(target);
+    }
+  };
+
+  const importNode = (target: string, node: SnapshotNode): void => {
+    switch (node.type) {
+      case FileSystemNodeType.FILE: {
+        const linked = linkedPaths.get(node.content);
+        const written = attempt(target, () => {
+          clearPath(target);
+          if (linked !== undefined) {
+            mountManager.link(linked, target);
+          } else {
+            mountManager.writeFile(target, decodeBase64(snapshot.contents[node.content]));
+          }
+        });
+        if (!written) return;
+        if (linked === undefined) {
+          linkedPaths.set(node.content, target);
+        }
+        break;
+      }
+      case FileSystemNodeType.SYMLINK: {
+        const created = attempt(target, () => {
+          clearPath(target);
+          mountManager.symlink(node.target, target);
+        });
+        if (!created) return;
+        break;
+      }
+      case FileSystemNodeType.DIRECTORY: {
+        const exists = mountManager.exists(target);
+        if (!exists && !attempt(target, () => mountManager.mkdir(target))) return;
+        node.children.forEach(child => importNode(joinPath(target, `/${child.name}`), child));
+        result.imported++;
+        // An existing directory keeps its attributes, as with tar -x into a directory
+        if (!exists) {
+          applyAttributes(target, node);
+        }
+        return;
+      }
+    }
+
+    result.imported++;
+    applyAttributes(target, node);
+  };
+
+  const destination = mountManager.normalizePath(path);
+  if (snapshot.root.type === FileSystemNodeType.DIRECTORY) {
+    const exists = mountManager.exists(destination);
+    if (!exists) {
+      mountManager.mkdirRecursive(destination);
+    }
+
+    const readOnly: string[] = [];
+    for (const mount of snapshot.mounts) {
+      const mountPoint = joinPath(destination, mount.path);
+      const { ro, ...options } = parseFileSystemOptions(mount.options);
+      attempt(mountPoint, () => {
+        mountManager.mount(mount.fsType, mountPoint, options);
+        result.mounted.push(mountPoint);
+        if (ro !== undefined) {
+          readOnly.push(mountPoint);
+        }
+      });
+    }
+
+    snapshot.root.children.forEach(child => importNode(joinPath(destination, `/${child.name}`), child));
+    result.imported++;
+    if (!exists) {
+      applyAttributes(destination, snapshot.root);
+    }
+    readOnly.forEach(mountPoint => attempt(mountPoint, () => mountManager.remount(mountPoint, { ro: '' })));
+  } else {
+    const isDirectory = mountManager.exists(destination)
+      && mountManager.stat(destination).type === FileSystemNodeType.DIRECTORY;
+    importNode(isDirectory ? joinPath(destination, `/${snapshot.root.name}`) : destination, snapshot.root);
+  }
+
+  return result;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { createProcessContext } from './Permissions';
+import { parseSize, TmpFileSystem } from './TmpFileSystem';
+
+// Run an operation and return the code of the FileSystemError it throws
+function errorCode(operation: () => void): ErrorCode | undefined {
+  try {
+    operation();
+  } catch (error) {
+    if (error instanceof FileSystemError) {
+      return error.code;
+    }
+    throw error;
+  }
+  return undefined;
+}
+
+describe('parseSize', () => {
+  it('accepts plain byte counts and k/M/G suffixes', () => {
+    expect(parseSize('4096')).toBe(4096);
+    expect(parseSize('512k')).toBe(512 * 1024);
+    expect(parseSize('16M')).toBe(16 * 1024 ** 2);
+    expect(parseSize('1g')).toBe(1024 ** 3);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseSize('')).toBeNull();
+    expect(parseSize('10T')).toBeNull();
+    expect(parseSize('-5')).toBeNull();
+  });
+});
+
+describe('TmpFileSystem', () => {
+  const createTmpfs = (size: number) => new TmpFileSystem('tmpfs', createProcessContext(), size);
+
+  it('fails a write that does not fit with ENOSPC', () => {
+    const fs = createTmpfs(8);
+    fs.createFile('/a', '12345678');
+
+    expect(errorCode(() => fs.createFile('/b', 'x'))).toBe(ErrorCode.ENOSPC);
+    expect(fs.findNode('/b')).toBeNull();
+    expect(fs.getUsage()).toEqual({ used: 8, size: 8, available: 0 });
+  });
+
+  it('only counts the growth when overwriting a file', () => {
+    const fs = createTmpfs(8);
+    fs.createFile('/a', '1234');
+
+    fs.writeFile('/a', '12345678');
+    expect(fs.getUsage().used).toBe(8);
+
+    expect(errorCode(() => fs.writeFile('/a', '123456789'))).toBe(ErrorCode.ENOSPC);
+    expect(fs.readFile('/a')).toBe('12345678');
+
+    fs.writeFile('/a', '12');
+    expect(fs.getUsage().available).toBe(6);
+  });
+
+  it('charges hard links to the shared content once', () => {
+    const fs = createTmpfs(8);
+    fs.createFile('/a', '12345678');
+
+    fs.link('/a', '/b');
+    expect(fs.getUsage().used).toBe(8);
+
+    expect(errorCode(() => fs.writeFile('/b', '123456789'))).toBe(ErrorCode.ENOSPC);
+    fs.writeFile('/b', '1234');
+    expect(fs.readFile('/a')).toBe('1234');
+  });
+
+  it('refuses to shrink below the space in use with ENOSPC', () => {
+    const fs = createTmpfs(8);
+    fs.createFile('/a', '12345678');
+
+    expect(errorCode(() => fs.remount({ size: '2' }))).toBe(ErrorCode.ENOSPC);
+    expect(fs.getSize()).toBe(8);
+
+    fs.remount({ size: '1k' });
+    expect(fs.getSize()).toBe(1024);
+  });
+
+  it('rejects a malformed size on remount with EINVAL', () => {
+    const fs = createTmpfs(8);
+
+    expect(errorCode(() => fs.remount({ size: 'lots' }))).toBe(ErrorCode.EINVAL);
+    expect(errorCode(() => fs.remount({ size: '0' }))).toBe(ErrorCode.EINVAL);
+    expect(fs.getSize()).toBe(8);
+  });
+});
@@ -0,0 +1,88 @@
+import { FileNode, FileSystem, FileSystemNodeType, FileSystemUsage } from './FileSystem';
+import { FileData, getByteLength } from './FileContent';
+import { FileSystemOptions } from './FileSystemDriver';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { ProcessContext } from './Permissions';
+
+// Capacity of a tmpfs mounted without a size= option
+export const DEFAULT_TMPFS_SIZE = 64 * 1024 * 1024;
+
+const SIZE_SUFFIXES: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 ** 2,
+  g: 1024 ** 3
+};
+
+// Parse a size such as "4096", "512k", "16M" or "1G". Returns null if it's invalid.
+export function parseSize(value: string): number | null {
+  const match = /^(\d+)([kmg]?)$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * SIZE_SUFFIXES[match[2].toLowerCase()];
+}
+
+// A memory-backed filesystem with a fixed capacity. Every byte of file content counts
+// against the size; writes that don't fit fail with ENOSPC.
+export class TmpFileSystem extends FileSystem {
+  private size: number;
+
+  constructor(name: string, context: ProcessContext, size: number = DEFAULT_TMPFS_SIZE) {
+    super(name, 'tmpfs', context);
+    this.size = size;
+
+    // tmpfs is world-writable with the sticky bit set, like /tmp
+    this.root.mode = 0o1777;
+  }
+
+  // Capacity in bytes
+  getSize(): number {
+    return this.size;
+  }
+
+  // Space used, with the capacity and what's left of it
+  getUsage(): FileSystemUsage {
+    const used = this.getUsedBytes();
+    return { used, size: this.size, available: Math.max(0, this.size - used) };
+  }
+
+  // Resize on remount. A malformed size is EINVAL; one too small to hold everything
+  // already stored is ENOSPC, and nothing is changed in either case.
+  remount(options: FileSystemOptions): void {
+    const { size, ...others } = options;
+    const newSize = size !== undefined ? parseSize(size) : this.size;
+    if (newSize === null || newSize === 0) {
+      throw new FileSystemError(ErrorCode.EINVAL, `size=${size}`);
+    }
+    if (newSize < this.getUsedBytes()) {
+      throw new FileSystemError(ErrorCode.ENOSPC, `size=${size}`);
+    }
+
+    super.remount(others);
+    this.size = newSize;
+  }
+
+  // Throw ENOSPC unless growing the stored content by delta bytes still fits
+  private reserve(delta: number, path: string): void {
+    if (delta > 0 && this.getUsedBytes() + delta > this.size) {
+      throw new FileSystemError(ErrorCode.ENOSPC, path);
+    }
+  }
+
+  // Create a file if its content fits
+  createFile(path: string, content: FileData = '', currentDir: string = '/'): void {
+    this.reserve(getByteLength(content), path);
+    super.createFile(path, content, currentDir);
+  }
+
+  // Replace a file's content if the new content fits
+  writeFile(path: string, content: FileData, currentDir: string = '/'): void {
+    const node = this.findNode(path, currentDir);
+    if (node && node.type === FileSystemNodeType.FILE) {
+      this.reserve(getByteLength(content) - (node as FileNode).content.byteLength, path);
+    }
+    super.writeFile(path, content, currentDir); // Missing files go through createFile
+  }
+}
+
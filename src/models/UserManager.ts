@@ -0,0 +1,338 @@
+import { MountManager } from './MountManager';
+import { Credentials, ROOT_CREDENTIALS } from './Permissions';
+
+// An entry in /etc/passwd
+export interface UserEntry {
+  name: string;
+  uid: number;
+  gid: number;    // Primary group
+  gecos: string;  // Full name / comment
+  home: string;
+  shell: string;
+}
+
+// An entry in /etc/group
+export interface GroupEntry {
+  name: string;
+  gid: number;
+  members: string[]; // Users with this as a supplementary group
+}
+
+// Options accepted by useradd
+export interface NewUserOptions {
+  uid?: number;
+  group?: string;    // Primary group name or ID; a group named after the user is created otherwise
+  groups?: string[]; // Supplementary groups
+  home?: string;
+  shell?: string;
+}
+
+// Error raised for account database problems (unknown user, duplicate name, ...)
+export class AccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+const PASSWD_PATH = '/etc/passwd';
+const GROUP_PATH = '/etc/group';
+const SHADOW_PATH = '/etc/shadow';
+const HOSTNAME_PATH = '/etc/hostname';
+
+const FIRST_REGULAR_ID = 1000;
+const DEFAULT_SHELL = '/bin/sh';
+const LOCKED_PASSWORD = '!';
+export const SUDO_GROUP = 'sudo';
+
+// Hash a password with a salt. FNV-1a is NOT a secure password hash; it only keeps
+// passwords from being stored in plain text inside this teaching filesystem.
+function hashPassword(password: string, salt: string): string {
+  let hash = 0x811c9dc5;
+  for (const char of salt + password) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `$vfs$${salt}$${hash.toString(16).padStart(8, '0')}`;
+}
+
+// Manages the user and group database stored in /etc inside the root filesystem
+export class UserManager {
+  private mountManager: MountManager;
+
+  constructor(mountManager: MountManager) {
+    this.mountManager = mountManager;
+    this.mountManager.runAs(ROOT_CREDENTIALS, () => this.bootstrap());
+  }
+
+  // Create /etc/passwd, /etc/group, /etc/shadow and the root home on a fresh filesystem
+  private bootstrap(): void {
+    const mm = this.mountManager;
+    if (mm.exists(PASSWD_PATH)) {
+      return;
+    }
+
+    mm.mkdirRecursive('/etc');
+    mm.mkdirRecursive('/home');
+    mm.mkdirRecursive('/root');
+    mm.chmod('/root', 0o700);
+
+    mm.writeFile(PASSWD_PATH, `root:x:0:0:root:/root:${DEFAULT_SHELL}\n`);
+    mm.writeFile(GROUP_PATH, `root:x:0:\n${SUDO_GROUP}:x:27:\nusers:x:100:\n`);
+    mm.writeFile(SHADOW_PATH, `root:${LOCKED_PASSWORD}:0:0:99999:7:::\n`);
+    mm.chmod(SHADOW_PATH, 0o600);
+
+    if (!mm.exists(HOSTNAME_PATH)) {
+      mm.writeFile(HOSTNAME_PATH, 'vfs\n');
+    }
+  }
+
+  // Read a colon-separated database file, skipping blank lines and comments
+  private readTable(path: string): string[][] {
+    const content = this.mountManager.runAs(ROOT_CREDENTIALS, () => this.mountManager.readFile(path));
+    return content
+      .split('\n')
+      .filter(line => line.trim() !== '' && !line.startsWith('#'))
+      .map(line => line.split(':'));
+  }
+
+  // Write a colon-separated database file back
+  private writeTable(path: string, rows: string[][]): void {
+    const content = rows.map(row => row.join(':')).join('\n') + '\n';
+    this.mountManager.runAs(ROOT_CREDENTIALS, () => this.mountManager.writeFile(path, content));
+  }
+
+  // Account changes are only allowed for root
+  private requireRoot(): void {
+    if (this.mountManager.getCredentials().uid !== 0) {
+      throw new AccountError('Permission denied.');
+    }
+  }
+
+  // Get all users
+  getUsers(): UserEntry[] {
+    return this.readTable(PASSWD_PATH).map(([name, , uid, gid, gecos, home, shell]) => ({
+      name,
+      uid: Number(uid),
+      gid: Number(gid),
+      gecos: gecos ?? '',
+      home: home ?? '/',
+      shell: shell ?? DEFAULT_SHELL
+    }));
+  }
+
+  // Get all groups
+  getGroups(): GroupEntry[] {
+    return this.readTable(GROUP_PATH).map(([name, , gid, members]) => ({
+      name,
+      gid: Number(gid),
+      members: members ? members.split(',').filter(m => m !== '') : []
+    }));
+  }
+
+  // Find a user by name or numeric ID
+  findUser(nameOrId: string | number): UserEntry | null {
+    const users = this.getUsers();
+    return users.find(u => u.name === nameOrId) ??
+      users.find(u => String(u.uid) === String(nameOrId)) ??
+      null;
+  }
+
+  // Find a group by name or numeric ID
+  findGroup(nameOrId: string | number): GroupEntry | null {
+    const groups = this.getGroups();
+    return groups.find(g => g.name === nameOrId) ??
+      groups.find(g => String(g.gid) === String(nameOrId)) ??
+      null;
+  }
+
+  // Find a user, throwing if it doesn't exist
+  getUser(nameOrId: string | number): UserEntry {
+    const user = this.findUser(nameOrId);
+    if (!user) {
+      throw new AccountError(`user '${nameOrId}' does not exist`);
+    }
+    return user;
+  }
+
+  // Find a group, throwing if it doesn't exist
+  getGroup(nameOrId: string | number): GroupEntry {
+    const group = this.findGroup(nameOrId);
+    if (!group) {
+      throw new AccountError(`group '${nameOrId}' does not exist`);
+    }
+    return group;
+  }
+
+  // Groups a user belongs to, primary group first
+  getUserGroups(user: UserEntry): GroupEntry[] {
+    const groups = this.getGroups();
+    const primary = groups.find(g => g.gid === user.gid);
+    const supplementary = groups.filter(g => g.gid !== user.gid && g.members.includes(user.name));
+    return primary ? [primary, ...supplementary] : supplementary;
+  }
+
+  // Credentials a session logged in as this user runs with
+  getCredentials(user: UserEntry): Credentials {
+    const groups = this.getUserGroups(user).map(g => g.gid);
+    return {
+      uid: user.uid,
+      gid: user.gid,
+      groups: groups.includes(user.gid) ? groups : [user.gid, ...groups]
+    };
+  }
+
+  // Check whether a user may use sudo
+  isSudoer(user: UserEntry): boolean {
+    return user.uid === 0 || this.getUserGroups(user).some(g => g.name === SUDO_GROUP);
+  }
+
+  // Pick the first unused ID at or above the regular range
+  private nextFreeId(used: number[], preferred?: number): number {
+    if (preferred !== undefined && !used.includes(preferred)) {
+      return preferred;
+    }
+    let id = FIRST_REGULAR_ID;
+    while (used.includes(id)) id++;
+    return id;
+  }
+
+  // Validate a user or group name the way useradd does
+  private validateName(name: string): void {
+    if (!/^[a-z_][a-z0-9_-]*$/.test(name) || name.length > 32) {
+      throw new AccountError(`invalid name '${name}'`);
+    }
+  }
+
+  // Create a group
+  addGroup(name: string, gid?: number): GroupEntry {
+    this.requireRoot();
+    this.validateName(name);
+
+    const groups = this.getGroups();
+    if (groups.some(g => g.name === name)) {
+      throw new AccountError(`group '${name}' already exists`);
+    }
+    if (gid !== undefined && groups.some(g => g.gid === gid)) {
+      throw new AccountError(`GID '${gid}' already exists`);
+    }
+
+    const group = { name, gid: gid ?? this.nextFreeId(groups.map(g => g.gid)), members: [] };
+    this.writeTable(GROUP_PATH, [
+      ...this.readTable(GROUP_PATH),
+      [group.name, 'x', String(group.gid), '']
+    ]);
+    return group;
+  }
+
+  // Create a user, its group, its home directory and a locked shadow entry
+  addUser(name: string, options: NewUserOptions = {}): UserEntry {
+    this.requireRoot();
+    this.validateName(name);
+
+    const users = this.getUsers();
+    if (users.some(u => u.name === name)) {
+      throw new AccountError(`user '${name}' already exists`);
+    }
+    if (options.uid !== undefined && users.some(u => u.uid === options.uid)) {
+      throw new AccountError(`UID ${options.uid} is not unique`);
+    }
+
+    const supplementary = (options.groups ?? []).map(g => this.getGroup(g));
+    const uid = options.uid ?? this.nextFreeId(users.map(u => u.uid));
+    const primary = options.group !== undefined
+      ? this.getGroup(options.group)
+      : this.addGroup(name, this.nextFreeId(this.getGroups().map(g => g.gid), uid));
+
+    const user: UserEntry = {
+      name,
+      uid,
+      gid: primary.gid,
+      gecos: '',
+      home: options.home ?? `/home/${name}`,
+      shell: options.shell ?? DEFAULT_SHELL
+    };
+
+    this.writeTable(PASSWD_PATH, [
+      ...this.readTable(PASSWD_PATH),
+      [user.name, 'x', String(user.uid), String(user.gid), user.gecos, user.home, user.shell]
+    ]);
+    this.writeTable(SHADOW_PATH, [
+      ...this.readTable(SHADOW_PATH),
+      [user.name, LOCKED_PASSWORD, '0', '0', '99999', '7', '', '', '']
+    ]);
+
+    if (supplementary.length > 0) {
+      const names = supplementary.map(g => g.name);
+      this.writeTable(GROUP_PATH, this.readTable(GROUP_PATH).map(row => {
+        if (!names.includes(row[0])) return row;
+        const members = (row[3] ?? '').split(',').filter(m => m !== '');
+        return [row[0], row[1], row[2], [...members, name].join(',')];
+      }));
+    }
+
+    // Create the home directory owned by the new user
+    this.mountManager.runAs(ROOT_CREDENTIALS, () => {
+      if (!this.mountManager.exists(user.home)) {
+        this.mountManager.mkdirRecursive(user.home);
+      }
+      this.mountManager.chown(user.home, user.uid, user.gid);
+      this.mountManager.chmod(user.home, 0o755);
+    });
+
+    return user;
+  }
+
+  // Whether a user has no password at all (logins need no prompt)
+  hasEmptyPassword(name: string): boolean {
+    const entry = this.readTable(SHADOW_PATH).find(row => row[0] === name);
+    return entry !== undefined && entry[1] === '';
+  }
+
+  // Check a password against /etc/shadow; locked accounts never match
+  verifyPassword(name: string, password: string): boolean {
+    const entry = this.readTable(SHADOW_PATH).find(row => row[0] === name);
+    if (!entry) return false;
+
+    const stored = entry[1];
+    if (stored === '') return true;
+    if (!stored.startsWith('$vfs$')) return false; // Locked ("!" or "*")
+
+    const salt = stored.split('$')[2];
+    return hashPassword(password, salt) === stored;
+  }
+
+  // Set a user's password. Root may change anyone's, other users only their own.
+  setPassword(name: string, password: string): void {
+    const caller = this.mountManager.getCredentials();
+    const user = this.getUser(name);
+    if (caller.uid !== 0 && caller.uid !== user.uid) {
+      throw new AccountError(`You may not view or modify password information for ${name}.`);
+    }
+
+    const salt = Math.random().toString(36).slice(2, 10);
+    const lastChange = String(Math.floor(Date.now() / 86400000));
+    const rows = this.readTable(SHADOW_PATH);
+    if (!rows.some(row => row[0] === name)) {
+      rows.push([name, '', '0', '0', '99999', '7', '', '', '']);
+    }
+
+    this.writeTable(SHADOW_PATH, rows.map(row => {
+      if (row[0] !== name) return row;
+      const updated = [...row];
+      updated[1] = hashPassword(password, salt);
+      updated[2] = lastChange;
+      return updated;
+    }));
+  }
+
+  // Get the machine's host name
+  getHostname(): string {
+    try {
+      const name = this.mountManager.runAs(ROOT_CREDENTIALS, () => this.mountManager.readFile(HOSTNAME_PATH));
+      return name.trim() || 'localhost';
+    } catch {
+      return 'localhost';
+    }
+  }
+}
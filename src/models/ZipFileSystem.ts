@@ -0,0 +1,148 @@
+import { ZipMember, readZipDirectory, readZipMember } from '../utils/zip';
+import { ArchiveError } from './Archive';
+import {
+  DirectoryNode,
+  FileInode,
+  FileNode,
+  FileSystem,
+  FileSystemNode,
+  FileSystemNodeType,
+  createDirectoryNode,
+  createFileNode,
+  createSymlinkNode
+} from './FileSystem';
+import { decodeText } from './FileContent';
+import { ErrorCode, FileSystemError } from './FileSystemError';
+import { ProcessContext } from './Permissions';
+
+// The archive a zip filesystem shows, as it was when mounted
+export interface ZipSource {
+  path: string; // Where the archive was mounted from
+  data: Uint8Array;
+  uid: number;  // Owner of every entry: whoever mounted it, as with a FUSE mount
+  gid: number;
+}
+
+// Read-only view of a zip archive. The tree is built from the central directory when
+// the archive is loaded; each file is only decompressed the first time it's read.
+// Until then it holds zeros of the right length, so sizes show up correctly.
+export class ZipFileSystem extends FileSystem {
+  private source: ZipSource | null = null;
+  private unread = new Map<FileInode, ZipMember>(); // Files not decompressed yet
+
+  constructor(name: string, context: ProcessContext) {
+    super(name, 'zip', context);
+    this.root.mode = 0o555;
+  }
+
+  // Build the tree from an archive. Throws ArchiveError if it isn't a zip archive
+  // that can be read.
+  load(source: ZipSource): void {
+    const { data, uid, gid } = source;
+    const members = readZipDirectory(data);
+    this.root.children.clear();
+    this.root.uid = uid;
+    this.root.gid = gid;
+    this.unread.clear();
+
+    // Find or create the directory at a path; archives needn't list every directory
+    const directoryAt = (segments: string[]): DirectoryNode => {
+      let directory = this.root;
+      for (const segment of segments) {
+        let child = directory.children.get(segment);
+        if (child?.type !== FileSystemNodeType.DIRECTORY) {
+          child = createDirectoryNode(segment, directory, 0o755, uid, gid);
+          directory.children.set(segment, child);
+        }
+        directory = child as DirectoryNode;
+      }
+      return directory;
+    };
+
+    for (const member of members) {
+      // Entries reaching outside the archive's own tree are left out
+      const segments = member.name.split('/').filter(segment => segment !== '' && segment !== '.');
+      if (segments.length === 0 || segments.includes('..')) continue;
+
+      const name = segments.pop()!;
+      const parent = directoryAt(segments);
+      let node: FileSystemNode;
+      switch (member.type) {
+        case 'directory':
+          node = directoryAt([...segments, name]);
+          node.mode = member.mode;
+          break;
+        case 'symlink':
+          node = createSymlinkNode(name, parent, decodeText(readZipMember(data, member)), uid, gid);
+          parent.children.set(name, node);
+          break;
+        default: {
+          const file = createFileNode(name, parent, new Uint8Array(member.size), member.mode, uid, gid);
+          this.unread.set(file.inode, member);
+          node = file;
+          parent.children.set(name, node);
+        }
+      }
+      node.mtime = member.mtime;
+      node.ctime = member.mtime;
+      node.atime = member.mtime;
+    }
+
+    this.source = source;
+    this.version++;
+  }
+
+  // The archive being shown, for saving
+  getSource(): ZipSource | null {
+    return this.source;
+  }
+
+  // Decompress a file's content if it hasn't been read yet. A damaged entry reads
+  // as an I/O error, like a bad block on a disk.
+  private loadContent(node: FileSystemNode): void {
+    const inode = node.type === FileSystemNodeType.FILE ? (node as FileNode).inode : null;
+    const member = inode && this.unread.get(inode);
+    if (!member || !this.source) return;
+
+    try {
+      inode!.content = readZipMember(this.source.data, member);
+    } catch (error) {
+      if (error instanceof ArchiveError) {
+        throw new FileSystemError(ErrorCode.EIO, node.path);
+      }
+      throw error;
+    }
+    this.unread.delete(inode!);
+  }
+
+  // Read a file, decompressing it on first use
+  readFileBytes(path: string, currentDir: string = '/'): Uint8Array {
+    this.loadContent(this.lookup(path, currentDir));
+    return super.readFileBytes(path, currentDir);
+  }
+
+  // The tree is rebuilt from the archive, which is saved instead
+  isPersistent(): boolean {
+    return false;
+  }
+
+  // Throw EROFS for an attempted modification
+  private readOnly(path: string): never {
+    throw new FileSystemError(ErrorCode.EROFS, path);
+  }
+
+  // Every operation that would modify the tree is refused
+  mkdir(path: string): void { this.readOnly(path); }
+  createFile(path: string): void { this.readOnly(path); }
+  writeFile(path: string): void { this.readOnly(path); }
+  remove(path: string): void { this.readOnly(path); }
+  rmdir(path: string): void { this.readOnly(path); }
+  rename(oldPath: string): void { this.readOnly(oldPath); }
+  symlink(_target: string, path: string): void { this.readOnly(path); }
+  link(_existingPath: string, newPath: string): void { this.readOnly(newPath); }
+  mknod(path: string): void { this.readOnly(path); }
+  chmod(path: string): void { this.readOnly(path); }
+  chown(path: string): void { this.readOnly(path); }
+  chgrp(path: string): void { this.readOnly(path); }
+  utimes(path: string): void { this.readOnly(path); }
+}
@@ -4,12 +4,33 @@ import FileExplorer from '@/components/FileExplorer';
 import Terminal from '@/components/Terminal';
 import DiskUsage from '@/components/DiskUsage';
 import { Separator } from '@/components/ui/separator';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
 import { MountManager } from '@/models/MountManager';
+import { PersistenceManager } from '@/models/PersistenceManager';
 
 const Index = () => {
   // Create a singleton instance of MountManager to share across components
   const mountManager = useMemo(() => new MountManager(), []);
+  const persistence = useMemo(() => new PersistenceManager(mountManager), [mountManager]);
+
+  // Bring back the files and mounts saved before the last reload before showing anything
+  const [restored, setRestored] = useState(false);
+  useEffect(() => {
+    persistence.restore()
+      .catch(error => toast.error('Could not restore the saved system', {
+        description: error instanceof Error ? error.message : String(error)
+      }))
+      .finally(() => setRestored(true));
+  }, [persistence]);
+
+  if (!restored) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-[#1A1F2C] text-slate-400 font-mono">
+        Restoring saved files...
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col min-h-screen bg-[#1A1F2C] text-slate-300 font-mono">
@@ -29,7 +50,7 @@ const Index = () => {
             <h2 className="text-xl font-bold mb-4 text-terminal-prompt flex items-center gap-2">
               File Explorer
             </h2>
-            <FileExplorer mountManager={mountManager} />
+            <FileExplorer mountManager={mountManager} persistence={persistence} />
           </div>
         </div>
         
@@ -40,7 +61,7 @@ const Index = () => {
               Terminal
             </h2>
             <Card className="flex-1 shadow-xl bg-terminal-background border-slate-700 overflow-hidden">
-              <Terminal mountManager={mountManager} />
+              <Terminal mountManager={mountManager} persistence={persistence} />
             </Card>
           </div>
         </div>
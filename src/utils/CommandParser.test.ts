@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { MountManager } from '../models/MountManager';
+import { CommandParser } from './CommandParser';
+
+describe('CommandParser scripts', () => {
+  let system: MountManager;
+  let parser: CommandParser;
+
+  // Run commands in order, failing the test if any of them fails
+  const run = (...commands: string[]) => commands.forEach(command => {
+    const result = parser.parseCommand(command);
+    expect(result.success, `${command}: ${result.message}`).toBe(true);
+  });
+
+  beforeEach(() => {
+    system = new MountManager();
+    parser = new CommandParser(system);
+    run('useradd alice', 'mkdir /t', 'mount tmpfs /t', 'write_file /t/who whoami');
+  });
+
+  it('runs an executable file as a list of commands', () => {
+    run('chmod 755 /t/who');
+    expect(parser.parseCommand('/t/who')).toMatchObject({ success: true, message: 'root' });
+
+    run('chmod 644 /t/who');
+    expect(parser.parseCommand('/t/who')).toMatchObject({ success: false, message: '/t/who: Permission denied' });
+  });
+
+  it('passes its arguments as $1 to $9', () => {
+    run('write_file /t/show "read_file $1"', 'chmod 755 /t/show', 'write_file /t/note hello');
+    expect(parser.parseCommand('/t/show /t/note').message).toBe('Content of /t/note:\nhello');
+  });
+
+  it('honours setuid unless the mount is nosuid, and refuses noexec mounts', () => {
+    run('chmod 4755 /t/who', 'su alice');
+    expect(parser.parseCommand('/t/who').message).toBe('root');
+
+    run('exit', 'mount -o remount,nosuid /t', 'su alice');
+    expect(parser.parseCommand('/t/who').message).toBe('alice');
+
+    run('exit', 'mount -o remount,noexec /t', 'su alice');
+    expect(parser.parseCommand('/t/who')).toMatchObject({ success: false, message: '/t/who: Permission denied' });
+  });
+
+  it('stops a script that keeps running itself', () => {
+    run('write_file /t/loop /t/loop', 'chmod 755 /t/loop');
+    expect(parser.parseCommand('/t/loop')).toMatchObject({ success: false, message: '/t/loop: scripts nested too deeply' });
+  });
+});
@@ -1,17 +1,51 @@
-import { MountManager } from '../models/MountManager';
-import { FileSystemNodeType } from '../models/FileSystem';
+import { CopyOptions, MountManager } from '../models/MountManager';
+import { DeviceNode, FileNode, FileSystemNode, FileSystemNodeType, SymlinkNode, getLinkCount, getNodeSize } from '../models/FileSystem';
+import { isSupportedEncoding } from '../models/FileContent';
+import { parseFileSystemOptions } from '../models/FileSystemDriver';
+import { ArchiveEntry, ArchiveEntryType, ArchiveError, collectArchiveEntries, extractArchiveEntries, formatEntryName } from '../models/Archive';
+import { ErrorCode, FileSystemError } from '../models/FileSystemError';
+import { FSTAB_PATH, formatFstabError } from '../models/Fstab';
+import { formatMountOptions } from '../models/MountOptions';
+import { PersistenceManager } from '../models/PersistenceManager';
+import { SnapshotError, createSnapshot, formatSnapshot, importSnapshot, parseSnapshot } from '../models/SnapshotExport';
+import { Credentials, ROOT_CREDENTIALS, formatMode, formatOctalMode, parseMode } from '../models/Permissions';
+import { AccountError, NewUserOptions } from '../models/UserManager';
+import { gunzip, gzip, isGzip } from './compression';
+import { DownloadFile } from './download';
+import { detectFileType } from './fileType';
+import { formatHexdump, formatXxd } from './hexFormat';
+import { readTar, writeTar } from './tar';
+import { METHOD_DEFLATED, ZipArchive, ZipMember, readZip, readZipDirectory, readZipEntry, writeZip } from './zip';
+import { TIME_STYLES, TimeStyle, formatFullTimestamp, formatTimestamp, parseTouchStamp } from './timeFormat';
 
 export type CommandResult = {
   success: boolean;
   message: string;
   data?: any;
+  code?: ErrorCode; // Reason for the failure, when it came from the filesystem layer
+  prompt?: CommandPrompt; // Set when the command needs more input before it can finish
+  pending?: Promise<CommandResult>; // Set when the command finishes later, e.g. waiting for storage
+  download?: DownloadFile; // A file for the browser to save
+};
+
+// How deeply scripts may run other scripts, so a script that runs itself stops
+const MAX_SCRIPT_DEPTH = 16;
+
+// A question the terminal asks the user on behalf of a running command
+export type CommandPrompt = {
+  message: string;  // Shown in place of the shell prompt, e.g. "Password:"
+  secret?: boolean; // Don't echo what the user types
+  respond: (input: string) => CommandResult;
 };
 
 export class CommandParser {
   private mountManager: MountManager;
+  private persistence: PersistenceManager | null; // Where sync and reset save to, if anywhere
+  private scriptDepth = 0; // Scripts currently running, one inside the other
 
-  constructor(mountManager: MountManager) {
+  constructor(mountManager: MountManager, persistence: PersistenceManager | null = null) {
     this.mountManager = mountManager;
+    this.persistence = persistence;
   }
 
   // Parse and execute a command
@@ -65,9 +99,16 @@ export class CommandParser {
       return { success: true, message: '' };
     }
 
-    const command = parts[0].toLowerCase();
-    const args = parts.slice(1);
+    // A path runs that file as a script instead of a built-in command
+    if (parts[0].includes('/')) {
+      return this.handleScript(parts[0], parts.slice(1));
+    }
+
+    return this.executeCommand(parts[0].toLowerCase(), parts.slice(1));
+  }
 
+  // Execute an already tokenized command
+  private executeCommand(command: string, args: string[]): CommandResult {
     try {
       switch (command) {
         case 'mkdir':
@@ -78,6 +119,11 @@ export class CommandParser {
           return this.handleWriteFile(args);
         case 'read_file':
           return this.handleReadFile(args);
+        case 'hexdump':
+        case 'xxd':
+          return this.handleHexDump(command, args);
+        case 'file':
+          return this.handleFile(args);
         case 'ls':
           return this.handleLs(args);
         case 'cd':
@@ -87,18 +133,77 @@ export class CommandParser {
         case 'mount':
           return this.handleMount(args);
         case 'unmount':
-          return this.handleUnmount(args);
+        case 'umount':
+          return this.handleUnmount(command, args);
         case 'mounts':
           return this.handleListMounts();
         case 'rm':
           return this.handleRemove(args);
+        case 'rmdir':
+          return this.handleRmdir(args);
         case 'cp':
           return this.handleCopy(args);
+        case 'mv':
+          return this.handleMove(args);
+        case 'ln':
+          return this.handleLn(args);
+        case 'readlink':
+          return this.handleReadlink(args);
+        case 'realpath':
+          return this.handleRealpath(args);
+        case 'stat':
+          return this.handleStat(args);
+        case 'touch':
+          return this.handleTouch(args);
+        case 'chmod':
+          return this.handleChmod(args);
+        case 'chown':
+          return this.handleChown(args);
+        case 'chgrp':
+          return this.handleChgrp(args);
+        case 'umask':
+          return this.handleUmask(args);
+        case 'whoami':
+          return this.handleWhoami();
+        case 'id':
+          return this.handleId(args);
+        case 'useradd':
+          return this.handleUseradd(args);
+        case 'groupadd':
+          return this.handleGroupadd(args);
+        case 'passwd':
+          return this.handlePasswd(args);
+        case 'su':
+          return this.handleSu(args);
+        case 'sudo':
+          return this.handleSudo(args);
+        case 'export':
+          return this.handleExport(args);
+        case 'import':
+          return this.handleImport(args);
+        case 'tar':
+          return this.handleTar(args);
+        case 'zip':
+          return this.handleZip(args);
+        case 'unzip':
+          return this.handleUnzip(args);
+        case 'snapshot':
+          return this.handleSnapshot(args);
+        case 'download':
+          return this.handleDownload(args);
+        case 'sync':
+          return this.handleSync();
+        case 'reset':
+          return this.handleReset();
         case 'help':
           return this.handleHelp();
         case 'clear':
           return { success: true, message: 'CLEAR_SCREEN' };
         case 'exit':
+          // Leaving an su session returns to the previous user instead of closing the CLI
+          if (this.mountManager.exitSession()) {
+            return { success: true, message: 'logout' };
+          }
           return { success: true, message: 'EXIT' };
         default:
           return { success: false, message: `Command not found: ${command}` };
@@ -111,27 +216,43 @@ export class CommandParser {
     }
   }
 
-  // Handle mkdir command
-  private handleMkdir(args: string[]): CommandResult {
-    if (args.length < 1) {
-      return { success: false, message: 'Usage: mkdir <path>' };
+  // Turn a filesystem error into a failed result, e.g.
+  // "mkdir: cannot create directory 'a/b': No such file or directory"
+  private failure(context: string, error: unknown): CommandResult {
+    if (error instanceof AccountError || error instanceof SnapshotError || error instanceof ArchiveError) {
+      return { success: false, message: `${context}: ${error.message}` };
+    }
+    if (!(error instanceof FileSystemError)) {
+      throw error;
     }
 
-    const path = args[0];
+    return {
+      success: false,
+      message: `${context}: ${error.description}`,
+      code: error.code
+    };
+  }
+
+  // Handle mkdir command
+  private handleMkdir(args: string[]): CommandResult {
     const recursive = args.includes('-p');
+    const path = args.find(arg => !arg.startsWith('-'));
 
-    let success;
-    if (recursive) {
-      success = this.mountManager.mkdirRecursive(path);
-    } else {
-      success = this.mountManager.mkdir(path);
+    if (!path) {
+      return { success: false, message: 'Usage: mkdir <path>' };
     }
 
-    if (success) {
-      return { success: true, message: `Directory created: ${path}` };
-    } else {
-      return { success: false, message: `Failed to create directory: ${path}` };
+    try {
+      if (recursive) {
+        this.mountManager.mkdirRecursive(path);
+      } else {
+        this.mountManager.mkdir(path);
+      }
+    } catch (error) {
+      return this.failure(`mkdir: cannot create directory '${path}'`, error);
     }
+
+    return { success: true, message: `Directory created: ${path}` };
   }
 
   // Handle create_file command
@@ -141,13 +262,14 @@ export class CommandParser {
     }
 
     const path = args[0];
-    const success = this.mountManager.createFile(path);
 
-    if (success) {
-      return { success: true, message: `File created: ${path}` };
-    } else {
-      return { success: false, message: `Failed to create file: ${path}` };
+    try {
+      this.mountManager.createFile(path);
+    } catch (error) {
+      return this.failure(`create_file: cannot create file '${path}'`, error);
     }
+
+    return { success: true, message: `File created: ${path}` };
   }
 
   // Handle write_file command
@@ -159,41 +281,118 @@ export class CommandParser {
     const path = args[0];
     const content = args.slice(1).join(' ');
 
-    const success = this.mountManager.writeFile(path, content);
-
-    if (success) {
-      return { success: true, message: `Content written to: ${path}` };
-    } else {
-      return { success: false, message: `Failed to write to file: ${path}` };
+    try {
+      this.mountManager.writeFile(path, content);
+    } catch (error) {
+      return this.failure(`write_file: cannot write to '${path}'`, error);
     }
+
+    return { success: true, message: `Content written to: ${path}` };
   }
 
-  // Handle read_file command
+  // Handle read_file command: read_file [--encoding=ENC] <path>
   private handleReadFile(args: string[]): CommandResult {
-    if (args.length < 1) {
-      return { success: false, message: 'Usage: read_file <path>' };
-    }
+    const encodingArg = args.find(arg => arg.startsWith('--encoding='));
+    const encoding = encodingArg ? encodingArg.substring('--encoding='.length) : 'utf-8';
+    const path = args.find(arg => !arg.startsWith('--'));
 
-    const path = args[0];
-    const content = this.mountManager.readFile(path);
+    if (!path) {
+      return { success: false, message: 'Usage: read_file [--encoding=ENC] <path>' };
+    }
+    if (!isSupportedEncoding(encoding)) {
+      return { success: false, message: `read_file: unsupported encoding '${encoding}'`, code: ErrorCode.EINVAL };
+    }
 
-    if (content !== null) {
+    try {
+      const content = this.mountManager.readFile(path, encoding);
       return { 
         success: true, 
         message: `Content of ${path}:\n${content}` 
       };
-    } else {
-      return { success: false, message: `Failed to read file: ${path}` };
+    } catch (error) {
+      return this.failure(`read_file: cannot read '${path}'`, error);
+    }
+  }
+
+  // Handle hexdump and xxd commands: show a file's bytes in hex
+  private handleHexDump(command: 'hexdump' | 'xxd', args: string[]): CommandResult {
+    const path = args.find(arg => !arg.startsWith('-'));
+    if (!path) {
+      return { success: false, message: command === 'hexdump' ? 'Usage: hexdump [-C] <path>' : 'Usage: xxd <path>' };
+    }
+
+    try {
+      const bytes = this.mountManager.readFileBytes(path);
+      return { success: true, message: command === 'hexdump' ? formatHexdump(bytes) : formatXxd(bytes) };
+    } catch (error) {
+      return this.failure(`${command}: ${path}`, error);
+    }
+  }
+
+  // Handle file command: guess what kind of data each path holds
+  private handleFile(args: string[]): CommandResult {
+    if (args.length < 1) {
+      return { success: false, message: 'Usage: file <path>...' };
+    }
+
+    const output: string[] = [];
+    let failure: CommandResult | null = null;
+
+    for (const path of args) {
+      try {
+        const node = this.mountManager.lstat(path);
+        let description: string;
+        switch (node.type) {
+          case FileSystemNodeType.DIRECTORY:
+            description = 'directory';
+            break;
+          case FileSystemNodeType.SYMLINK:
+            description = `symbolic link to ${(node as SymlinkNode).target}`;
+            break;
+          case FileSystemNodeType.DEVICE: {
+            const { major, minor } = (node as DeviceNode).device;
+            description = `character special (${major}/${minor})`;
+            break;
+          }
+          default:
+            description = detectFileType(this.mountManager.readFileBytes(path));
+        }
+        output.push(`${path}: ${description}`);
+      } catch (error) {
+        failure = this.failure(`${path}: cannot open`, error);
+        output.push(failure.message);
+      }
     }
+
+    return { success: failure === null, message: output.join('\n'), code: failure?.code };
   }
 
   // Handle ls command
   private handleLs(args: string[]): CommandResult {
-    const path = args.length > 0 ? args[0] : '.';
-    const nodes = this.mountManager.listDirectory(path);
+    const flags = args.filter(arg => /^-[^-]/.test(arg)).join('');
+    const longFormat = flags.includes('l');
+    const path = args.find(arg => !arg.startsWith('-')) ?? '.';
+
+    // --time-style=STYLE picks how ls -l prints modification times
+    let timeStyle: TimeStyle = 'locale';
+    const styleArg = args.find(arg => arg.startsWith('--time-style='));
+    if (styleArg) {
+      const style = styleArg.substring('--time-style='.length) as TimeStyle;
+      if (!TIME_STYLES.includes(style)) {
+        return {
+          success: false,
+          message: `ls: invalid argument '${style}' for '--time-style'\nValid arguments are: ${TIME_STYLES.join(', ')}`,
+          code: ErrorCode.EINVAL
+        };
+      }
+      timeStyle = style;
+    }
 
-    if (nodes === null) {
-      return { success: false, message: `Cannot list directory: ${path}` };
+    let nodes;
+    try {
+      nodes = this.mountManager.listDirectory(path);
+    } catch (error) {
+      return this.failure(`ls: cannot access '${path}'`, error);
     }
 
     if (nodes.length === 0) {
@@ -202,12 +401,18 @@ export class CommandParser {
 
     // Sort with directories first, then files
     nodes.sort((a, b) => {
-      if (a.type !== b.type) {
-        return a.type === FileSystemNodeType.DIRECTORY ? -1 : 1;
+      const aIsDir = a.type === FileSystemNodeType.DIRECTORY;
+      const bIsDir = b.type === FileSystemNodeType.DIRECTORY;
+      if (aIsDir !== bIsDir) {
+        return aIsDir ? -1 : 1;
       }
       return a.name.localeCompare(b.name);
     });
 
+    if (longFormat) {
+      return { success: true, message: this.formatLongListing(nodes, timeStyle) };
+    }
+
     const output = nodes.map(node => {
       const isDir = node.type === FileSystemNodeType.DIRECTORY;
       const name = isDir ? node.name + '/' : node.name;
@@ -221,22 +426,67 @@ export class CommandParser {
     };
   }
 
-  // Handle cd command
-  private handleCd(args: string[]): CommandResult {
-    if (args.length < 1) {
-      // Default to home directory
-      const success = this.mountManager.setCurrentDirectory('/');
-      return { success, message: success ? 'Changed to /' : 'Failed to change directory' };
+  // Type character used by ls -l and stat
+  private nodeTypeChar(node: FileSystemNode): string {
+    switch (node.type) {
+      case FileSystemNodeType.DIRECTORY:
+        return 'd';
+      case FileSystemNodeType.SYMLINK:
+        return 'l';
+      case FileSystemNodeType.DEVICE:
+        return 'c';
+      default:
+        return '-';
     }
+  }
 
-    const path = args[0];
-    const success = this.mountManager.setCurrentDirectory(path);
+  // Format nodes as ls -l lines: mode, links, owner, group, size, modification time and name
+  private formatLongListing(nodes: FileSystemNode[], timeStyle: TimeStyle): string {
+    const users = this.mountManager.getUserManager();
+    const userNames = new Map(users.getUsers().map(u => [u.uid, u.name]));
+    const groupNames = new Map(users.getGroups().map(g => [g.gid, g.name]));
+
+    const rows = nodes.map(node => [
+      formatMode(node.mode, this.nodeTypeChar(node)),
+      String(getLinkCount(node)),
+      userNames.get(node.uid) ?? String(node.uid),
+      groupNames.get(node.gid) ?? String(node.gid),
+      // Devices show their major and minor numbers where files show a size
+      node.type === FileSystemNodeType.DEVICE
+        ? `${(node as DeviceNode).device.major}, ${(node as DeviceNode).device.minor}`
+        : String(getNodeSize(node)),
+      formatTimestamp(node.mtime, timeStyle),
+      node.type === FileSystemNodeType.SYMLINK
+        ? `${node.name} -> ${(node as SymlinkNode).target}`
+        : node.name
+    ]);
+
+    // Pad the link count, owner, group and size columns to a common width
+    const widths = [1, 2, 3, 4].map(col => Math.max(...rows.map(row => row[col].length)));
+    return rows.map(([mode, links, owner, group, size, time, name]) => [
+      mode,
+      links.padStart(widths[0]),
+      owner.padEnd(widths[1]),
+      group.padEnd(widths[2]),
+      size.padStart(widths[3]),
+      time,
+      name
+    ].join(' ')).join('\n');
+  }
 
-    if (success) {
-      return { success: true, message: `Changed to ${this.mountManager.getCurrentDirectory()}` };
-    } else {
-      return { success: false, message: `Failed to change directory: ${path}` };
+  // Handle cd command
+  private handleCd(args: string[]): CommandResult {
+    // Default to home directory, and expand a leading ~ to it
+    const home = this.mountManager.getHomeDirectory();
+    const path = args.length > 0 ? args[0].replace(/^~(?=\/|$)/, home) : home;
+
+    try {
+      this.mountManager.setCurrentDirectory(path);
+    } catch (error) {
+      return this.failure(`cd: ${path}`, error);
     }
+
+    return { success: true, message: `Changed to ${this.mountManager.getCurrentDirectory()}` };
   }
 
   // Handle pwd command
@@ -247,38 +497,114 @@ export class CommandParser {
     };
   }
 
-  // Handle mount command
+  // Handle mount command: mount [-o options] <fs_type> <mount_point>
   private handleMount(args: string[]): CommandResult {
-    if (args.length < 2) {
-      return { success: false, message: 'Usage: mount <fs_type> <mount_point>' };
+    const optionIndex = args.indexOf('-o');
+    const optionSpec = optionIndex !== -1 ? args[optionIndex + 1] ?? '' : '';
+    const positional = args.filter((arg, i) =>
+      arg !== '--bind' && (optionIndex === -1 || (i !== optionIndex && i !== optionIndex + 1)));
+
+    const options = parseFileSystemOptions(optionSpec);
+
+    // mount -a mounts whatever /etc/fstab lists that isn't mounted yet
+    if (args.includes('-a')) {
+      return this.handleMountAll();
+    }
+
+    // mount --bind <source> <mount_point> shows an existing directory at a second path
+    if (args.includes('--bind')) {
+      if (positional.length < 2) {
+        return { success: false, message: 'Usage: mount --bind [-o options] <source> <mount_point>' };
+      }
+      const [source, target] = positional;
+      try {
+        this.mountManager.bindMount(source, target, options);
+      } catch (error) {
+        return this.failure(`mount: ${target}`, error);
+      }
+      return { success: true, message: `Bound ${source} to ${target}` };
+    }
+
+    // mount -o remount,... <mount_point> changes the options of an existing mount
+    if ('remount' in options) {
+      const target = positional[0];
+      if (!target) {
+        return { success: false, message: 'Usage: mount -o remount,<options> <mount_point>' };
+      }
+      try {
+        this.mountManager.remount(target, options);
+      } catch (error) {
+        return this.failure(`mount: ${target}`, error);
+      }
+      return { success: true, message: `Remounted ${target}` };
     }
 
-    const fsType = args[0];
-    const mountPoint = args[1];
+    if (positional.length < 2) {
+      return { success: false, message: 'Usage: mount [-o options] <fs_type> [source] <mount_point>' };
+    }
 
-    const success = this.mountManager.mount(fsType, mountPoint);
+    // The source, where a type needs one, goes between the type and the mount point
+    const [fsType, source, mountPoint] = positional.length > 2 ? positional : [positional[0], null, positional[1]];
 
-    if (success) {
-      return { success: true, message: `Mounted ${fsType} filesystem at ${mountPoint}` };
-    } else {
-      return { success: false, message: `Failed to mount filesystem at ${mountPoint}` };
+    try {
+      this.mountManager.mount(fsType, mountPoint, options, source);
+    } catch (error) {
+      if (error instanceof FileSystemError && error.code === ErrorCode.ENODEV) {
+        const supported = this.mountManager.getDriverRegistry().getSupportedTypes().join(', ');
+        return {
+          success: false,
+          message: `mount: unknown filesystem type '${fsType}' (supported: ${supported})`,
+          code: error.code
+        };
+      }
+      return this.failure(`mount: ${mountPoint}`, error);
     }
+
+    return { success: true, message: `Mounted ${fsType} filesystem at ${mountPoint}` };
   }
 
-  // Handle unmount command
-  private handleUnmount(args: string[]): CommandResult {
-    if (args.length < 1) {
-      return { success: false, message: 'Usage: unmount <mount_point>' };
+  // Handle mount -a: report each filesystem mounted from /etc/fstab, then any bad lines
+  private handleMountAll(): CommandResult {
+    let result;
+    try {
+      result = this.mountManager.mountAll();
+    } catch (error) {
+      return this.failure(`mount: ${FSTAB_PATH}`, error);
     }
 
-    const mountPoint = args[0];
-    const success = this.mountManager.unmount(mountPoint);
+    const lines = [
+      ...result.mounted.map(entry => 'bind' in entry.options
+        ? `Bound ${entry.source} to ${entry.mountPoint}`
+        : `Mounted ${entry.fsType} filesystem at ${entry.mountPoint}`),
+      ...result.errors.map(error => `mount: ${formatFstabError(error)}`)
+    ];
+    return {
+      success: result.errors.length === 0,
+      message: lines.length > 0 ? lines.join('\n') : 'Nothing to mount'
+    };
+  }
+
+  // Handle unmount/umount command: [-l] lazily detaches a busy mount,
+  // [-R] also unmounts everything mounted below it
+  private handleUnmount(command: string, args: string[]): CommandResult {
+    const flags = args.filter(arg => /^-[^-]/.test(arg)).join('');
+    const mountPoint = args.find(arg => !arg.startsWith('-'));
+    const unknown = flags.replace(/[-lR]/g, '');
 
-    if (success) {
-      return { success: true, message: `Unmounted filesystem from ${mountPoint}` };
-    } else {
-      return { success: false, message: `Failed to unmount filesystem from ${mountPoint}` };
+    if (!mountPoint || unknown) {
+      return { success: false, message: `Usage: ${command} [-l] [-R] <mount_point>` };
     }
+
+    try {
+      this.mountManager.unmount(mountPoint, { lazy: flags.includes('l'), recursive: flags.includes('R') });
+    } catch (error) {
+      if (error instanceof FileSystemError && error.code === ErrorCode.EBUSY) {
+        return { success: false, message: `${command}: ${mountPoint}: target is busy.`, code: error.code };
+      }
+      return this.failure(`${command}: ${mountPoint}`, error);
+    }
+
+    return { success: true, message: `Unmounted filesystem from ${mountPoint}` };
   }
 
   // Handle mounts (list mounts) command
@@ -292,7 +618,8 @@ export class CommandParser {
     const mountsList = mounts.map(m => {
       return { 
         mountPoint: m.path, 
-        fsType: m.filesystem.fsType 
+        fsType: m.filesystem.fsType,
+        options: formatMountOptions(m.options)
       };
     });
     
@@ -303,46 +630,1423 @@ export class CommandParser {
     };
   }
 
-  // Handle rm command
+  // Handle rm command: rm [-r] [-f|-i] <path>...
   private handleRemove(args: string[]): CommandResult {
+    let recursive = false;
+    let mode: 'default' | 'force' | 'interactive' = 'default';
+    const paths: string[] = [];
+
+    for (const arg of args) {
+      if (/^-[rRfi]+$/.test(arg)) {
+        for (const flag of arg.substring(1)) {
+          if (flag === 'r' || flag === 'R') {
+            recursive = true;
+          } else {
+            mode = flag === 'f' ? 'force' : 'interactive'; // The last of -f and -i wins
+          }
+        }
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length < 1) {
+      if (mode === 'force') {
+        return { success: true, message: '' };
+      }
+      return { success: false, message: 'Usage: rm [-r] [-f|-i] <path>...' };
+    }
+
+    const output: string[] = [];
+    let failure: CommandResult | null = null;
+
+    const removeOne = (path: string) => {
+      try {
+        if (recursive) {
+          this.mountManager.removeRecursive(path);
+        } else {
+          this.mountManager.remove(path);
+        }
+        output.push(`Removed ${path}`);
+      } catch (error) {
+        // -f ignores paths that don't exist
+        if (mode === 'force' && error instanceof FileSystemError && error.code === ErrorCode.ENOENT) {
+          return;
+        }
+        failure = this.failure(`rm: cannot remove '${path}'`, error);
+        output.push(failure.message);
+      }
+    };
+
+    // Remove paths in order, pausing to confirm each one with -i
+    const removeFrom = (index: number): CommandResult => {
+      for (let i = index; i < paths.length; i++) {
+        const path = paths[i];
+
+        if (mode === 'interactive' && this.lexists(path)) {
+          return {
+            success: true,
+            message: output.splice(0).join('\n'),
+            prompt: {
+              message: `rm: remove ${this.describeNode(path)} '${path}'?`,
+              respond: answer => {
+                if (/^y/i.test(answer.trim())) {
+                  removeOne(path);
+                }
+                return removeFrom(i + 1);
+              }
+            }
+          };
+        }
+
+        removeOne(path);
+      }
+
+      return {
+        success: failure === null,
+        message: output.join('\n'),
+        code: failure?.code
+      };
+    };
+
+    return removeFrom(0);
+  }
+
+  // Handle rmdir command: rmdir <directory>...
+  private handleRmdir(args: string[]): CommandResult {
     if (args.length < 1) {
-      return { success: false, message: 'Usage: rm <path>' };
+      return { success: false, message: 'Usage: rmdir <directory>...' };
     }
 
-    const path = args[0];
-    const success = this.mountManager.remove(path);
+    const output: string[] = [];
+    let failure: CommandResult | null = null;
+
+    for (const path of args) {
+      try {
+        this.mountManager.rmdir(path);
+        output.push(`Removed ${path}`);
+      } catch (error) {
+        failure = this.failure(`rmdir: failed to remove '${path}'`, error);
+        output.push(failure.message);
+      }
+    }
+
+    return { success: failure === null, message: output.join('\n'), code: failure?.code };
+  }
 
-    if (success) {
-      return { success: true, message: `Removed ${path}` };
-    } else {
-      return { success: false, message: `Failed to remove ${path}` };
+  // Describe what kind of node a path is, the way rm -i asks about it
+  private describeNode(path: string): string {
+    const node = this.mountManager.lstat(path);
+    switch (node.type) {
+      case FileSystemNodeType.DIRECTORY:
+        return 'directory';
+      case FileSystemNodeType.SYMLINK:
+        return 'symbolic link';
+      case FileSystemNodeType.DEVICE:
+        return 'character special file';
+      default:
+        return (node as FileNode).content.length === 0 ? 'regular empty file' : 'regular file';
     }
   }
 
-  // Handle cp (copy) command
+  // Handle cp (copy) command: cp [-r] [-a] [-n] [-u] <source>... <destination>
   private handleCopy(args: string[]): CommandResult {
+    const flags = args.filter(arg => /^-[^-]/.test(arg)).join('');
+    const paths = args.filter(arg => !arg.startsWith('-'));
+
+    if (paths.length < 2) {
+      return { success: false, message: 'Usage: cp [-r] [-a] [-n] [-u] <source>... <destination>' };
+    }
+
+    // -a implies -r
+    const options: CopyOptions = {
+      recursive: /[rRa]/.test(flags),
+      preserve: flags.includes('a'),
+      noClobber: flags.includes('n'),
+      update: flags.includes('u')
+    };
+
+    const destination = paths.pop();
+    if (paths.length > 1 && !this.isDirectory(destination)) {
+      return { success: false, message: `cp: target '${destination}' is not a directory`, code: ErrorCode.ENOTDIR };
+    }
+
+    const output: string[] = [];
+    let failure: CommandResult | null = null;
+
+    for (const source of paths) {
+      if (!options.recursive && this.isDirectory(source)) {
+        output.push(`cp: -r not specified; omitting directory '${source}'`);
+        failure = { success: false, message: '', code: ErrorCode.EISDIR };
+        continue;
+      }
+
+      try {
+        const target = this.mountManager.copy(source, destination, options);
+        output.push(`'${source}' -> '${target}'`);
+      } catch (error) {
+        failure = this.failure(`cp: cannot copy '${source}' to '${destination}'`, error);
+        output.push(failure.message);
+      }
+    }
+
+    return { success: failure === null, message: output.join('\n'), code: failure?.code };
+  }
+
+  // Handle ln command: ln [-s] [-f] <target> [link_name]
+  private handleLn(args: string[]): CommandResult {
+    const symbolic = args.some(arg => /^-[a-z]*s/.test(arg));
+    const force = args.some(arg => /^-[a-z]*f/.test(arg));
+    const paths = args.filter(arg => !arg.startsWith('-'));
+
+    if (paths.length < 1) {
+      return { success: false, message: 'Usage: ln [-s] [-f] <target> [link_name]' };
+    }
+
+    const target = paths[0];
+    const baseName = this.baseName(target);
+    let linkPath = paths[1] ?? baseName;
+
+    // Linking into an existing directory uses the target's name
+    try {
+      if (paths[1] && this.mountManager.stat(linkPath).type === FileSystemNodeType.DIRECTORY) {
+        linkPath = this.joinPath(linkPath, baseName);
+      }
+    } catch {
+      // The link path doesn't exist yet
+    }
+
+    try {
+      if (force) {
+        this.removeIfExists(linkPath);
+      }
+      if (symbolic) {
+        this.mountManager.symlink(target, linkPath);
+      } else {
+        this.mountManager.link(target, linkPath);
+      }
+    } catch (error) {
+      const kind = symbolic ? 'symbolic link' : 'hard link';
+      return this.failure(`ln: failed to create ${kind} '${linkPath}'`, error);
+    }
+
+    return { success: true, message: `'${linkPath}' -> '${target}'` };
+  }
+
+  // Last segment of a path
+  private baseName(path: string): string {
+    return path.split('/').filter(seg => seg !== '').pop() ?? path;
+  }
+
+  // Append a name to a directory path
+  private joinPath(directory: string, name: string): string {
+    return `${directory.replace(/\/+$/, '')}/${name}`;
+  }
+
+  // Check whether a path (or, for a symbolic link, the link itself) exists
+  private lexists(path: string): boolean {
+    try {
+      this.mountManager.lstat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Check whether a path exists and is (or links to) a directory
+  private isDirectory(path: string): boolean {
+    try {
+      return this.mountManager.stat(path).type === FileSystemNodeType.DIRECTORY;
+    } catch {
+      return false;
+    }
+  }
+
+  // Remove a path, ignoring it if it doesn't exist
+  private removeIfExists(path: string): void {
+    try {
+      this.mountManager.remove(path);
+    } catch (error) {
+      if (!(error instanceof FileSystemError && error.code === ErrorCode.ENOENT)) {
+        throw error;
+      }
+    }
+  }
+
+  // Handle readlink command (-f canonicalizes like realpath)
+  private handleReadlink(args: string[]): CommandResult {
+    const path = args.find(arg => !arg.startsWith('-'));
+    if (!path) {
+      return { success: false, message: 'Usage: readlink [-f] <path>' };
+    }
+
+    try {
+      const target = args.includes('-f')
+        ? this.mountManager.realpath(path)
+        : this.mountManager.readlink(path);
+      return { success: true, message: target };
+    } catch (error) {
+      return this.failure(`readlink: ${path}`, error);
+    }
+  }
+
+  // Handle realpath command
+  private handleRealpath(args: string[]): CommandResult {
+    if (args.length < 1) {
+      return { success: false, message: 'Usage: realpath <path>' };
+    }
+
+    try {
+      return { success: true, message: this.mountManager.realpath(args[0]) };
+    } catch (error) {
+      return this.failure(`realpath: ${args[0]}`, error);
+    }
+  }
+
+  // Handle stat command (-L follows symbolic links)
+  private handleStat(args: string[]): CommandResult {
+    const follow = args.includes('-L');
+    const paths = args.filter(arg => !arg.startsWith('-'));
+
+    if (paths.length < 1) {
+      return { success: false, message: 'Usage: stat [-L] <path>...' };
+    }
+
+    const users = this.mountManager.getUserManager();
+    const output: string[] = [];
+
+    for (const path of paths) {
+      let node: FileSystemNode;
+      try {
+        node = follow ? this.mountManager.stat(path) : this.mountManager.lstat(path);
+      } catch (error) {
+        return this.failure(`stat: cannot statx '${path}'`, error);
+      }
+
+      const typeNames = {
+        [FileSystemNodeType.FILE]: (node as FileNode).content?.length === 0 ? 'regular empty file' : 'regular file',
+        [FileSystemNodeType.DIRECTORY]: 'directory',
+        [FileSystemNodeType.SYMLINK]: 'symbolic link',
+        [FileSystemNodeType.DEVICE]: 'character special file'
+      };
+      const name = node.type === FileSystemNodeType.SYMLINK
+        ? `${path} -> ${(node as SymlinkNode).target}`
+        : path;
+      const owner = users.findUser(node.uid)?.name ?? 'UNKNOWN';
+      const group = users.findGroup(node.gid)?.name ?? 'UNKNOWN';
+      const mode = `${formatOctalMode(node.mode)}/${formatMode(node.mode, this.nodeTypeChar(node))}`;
+
+      output.push([
+        `  File: ${name}`,
+        `  Size: ${String(getNodeSize(node)).padEnd(10)} Links: ${getLinkCount(node)}    ${typeNames[node.type]}`,
+        `Access: (${mode})  Uid: (${String(node.uid).padStart(5)}/${owner.padStart(8)})   Gid: (${String(node.gid).padStart(5)}/${group.padStart(8)})`,
+        `Access: ${formatFullTimestamp(node.atime)}`,
+        `Modify: ${formatFullTimestamp(node.mtime)}`,
+        `Change: ${formatFullTimestamp(node.ctime)}`,
+        ` Birth: ${formatFullTimestamp(node.createdAt)}`
+      ].join('\n'));
+    }
+
+    return { success: true, message: output.join('\n') };
+  }
+
+  // Handle touch command: create files or update their times.
+  // -a/-m limit the change to access/modification time, -c doesn't create files,
+  // -d DATE, -t [[CC]YY]MMDDhhmm[.ss] and -r FILE pick the time to use.
+  private handleTouch(args: string[]): CommandResult {
+    const usage = 'Usage: touch [-a] [-m] [-c] [-d date] [-t stamp] [-r ref_file] <path>...';
+    let onlyAccess = false;
+    let onlyModify = false;
+    let noCreate = false;
+    let atime: Date | null = null;
+    let mtime: Date | null = null;
+    const paths: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '-d' || arg === '-t' || arg === '-r') {
+        const value = args[++i];
+        if (value === undefined) {
+          return { success: false, message: usage };
+        }
+
+        if (arg === '-r') {
+          try {
+            const reference = this.mountManager.stat(value);
+            atime = reference.atime;
+            mtime = reference.mtime;
+          } catch (error) {
+            return this.failure(`touch: failed to get attributes of '${value}'`, error);
+          }
+          continue;
+        }
+
+        const date = arg === '-d' ? new Date(value) : parseTouchStamp(value);
+        if (!date || isNaN(date.getTime())) {
+          return { success: false, message: `touch: invalid date format '${value}'`, code: ErrorCode.EINVAL };
+        }
+        atime = date;
+        mtime = date;
+      } else if (/^-[amc]+$/.test(arg)) {
+        onlyAccess = onlyAccess || arg.includes('a');
+        onlyModify = onlyModify || arg.includes('m');
+        noCreate = noCreate || arg.includes('c');
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length === 0) {
+      return { success: false, message: usage };
+    }
+
+    // Without -a or -m both times change
+    const explicit = atime !== null;
+    const now = new Date();
+    const changeAccess = onlyAccess || !onlyModify;
+    const changeModify = onlyModify || !onlyAccess;
+
+    const touched: string[] = [];
+    for (const path of paths) {
+      try {
+        if (!this.mountManager.exists(path)) {
+          if (noCreate) continue;
+          this.mountManager.createFile(path);
+        }
+        this.mountManager.utimes(
+          path,
+          changeAccess ? (atime ?? now) : null,
+          changeModify ? (mtime ?? now) : null,
+          explicit
+        );
+        touched.push(path);
+      } catch (error) {
+        return this.failure(`touch: cannot touch '${path}'`, error);
+      }
+    }
+
+    return { success: true, message: touched.length > 0 ? `Touched ${touched.join(', ')}` : '' };
+  }
+
+  // Handle chmod command
+  private handleChmod(args: string[]): CommandResult {
     if (args.length < 2) {
-      return { success: false, message: 'Usage: cp <source_path> <destination_path>' };
+      return { success: false, message: 'Usage: chmod <mode> <path>' };
     }
 
-    const sourcePath = args[0];
-    const destPath = args[1];
-    
-    // Read the source file
-    const content = this.mountManager.readFile(sourcePath);
-    
-    if (content === null) {
-      return { success: false, message: `Failed to read source file: ${sourcePath}` };
+    const [modeSpec, path] = args;
+
+    try {
+      const node = this.mountManager.stat(path);
+      const isDir = node.type === FileSystemNodeType.DIRECTORY;
+      const mode = parseMode(modeSpec, node.mode, isDir, this.mountManager.getUmask());
+
+      if (mode === null) {
+        return { success: false, message: `chmod: invalid mode: '${modeSpec}'`, code: ErrorCode.EINVAL };
+      }
+
+      this.mountManager.chmod(path, mode);
+      return { success: true, message: `Mode of '${path}' changed to ${formatOctalMode(mode)}` };
+    } catch (error) {
+      return this.failure(`chmod: changing permissions of '${path}'`, error);
     }
-    
-    // Write to the destination file
-    const success = this.mountManager.writeFile(destPath, content);
-    
-    if (success) {
-      return { success: true, message: `File copied from ${sourcePath} to ${destPath}` };
-    } else {
-      return { success: false, message: `Failed to copy to destination: ${destPath}` };
+  }
+
+  // Handle chown command (owner[:group])
+  private handleChown(args: string[]): CommandResult {
+    if (args.length < 2) {
+      return { success: false, message: 'Usage: chown <owner>[:<group>] <path>' };
+    }
+
+    const [spec, path] = args;
+    const [ownerSpec, groupSpec] = spec.split(':');
+    const uid = this.resolveUserId(ownerSpec);
+    const gid = groupSpec ? this.resolveGroupId(groupSpec) : undefined;
+
+    if (uid === null) {
+      return { success: false, message: `chown: invalid user: '${spec}'`, code: ErrorCode.EINVAL };
+    }
+    if (gid === null) {
+      return { success: false, message: `chown: invalid group: '${spec}'`, code: ErrorCode.EINVAL };
+    }
+
+    try {
+      this.mountManager.chown(path, uid, gid);
+    } catch (error) {
+      return this.failure(`chown: changing ownership of '${path}'`, error);
+    }
+
+    return { success: true, message: `Ownership of '${path}' changed to ${spec}` };
+  }
+
+  // Handle chgrp command
+  private handleChgrp(args: string[]): CommandResult {
+    if (args.length < 2) {
+      return { success: false, message: 'Usage: chgrp <group> <path>' };
     }
+
+    const [groupSpec, path] = args;
+    const gid = this.resolveGroupId(groupSpec);
+
+    if (gid === null) {
+      return { success: false, message: `chgrp: invalid group: '${groupSpec}'`, code: ErrorCode.EINVAL };
+    }
+
+    try {
+      this.mountManager.chgrp(path, gid);
+    } catch (error) {
+      return this.failure(`chgrp: changing group of '${path}'`, error);
+    }
+
+    return { success: true, message: `Group of '${path}' changed to ${groupSpec}` };
+  }
+
+  // Map a user name or numeric ID to a UID
+  private resolveUserId(spec: string): number | null {
+    if (/^\d+$/.test(spec)) return Number(spec);
+    return this.mountManager.getUserManager().findUser(spec)?.uid ?? null;
+  }
+
+  // Map a group name or numeric ID to a GID
+  private resolveGroupId(spec: string): number | null {
+    if (/^\d+$/.test(spec)) return Number(spec);
+    return this.mountManager.getUserManager().findGroup(spec)?.gid ?? null;
+  }
+
+  // Handle umask command
+  private handleUmask(args: string[]): CommandResult {
+    if (args.length < 1) {
+      return { success: true, message: formatOctalMode(this.mountManager.getUmask()) };
+    }
+
+    if (!/^[0-7]{1,4}$/.test(args[0])) {
+      return { success: false, message: `umask: ${args[0]}: invalid octal number`, code: ErrorCode.EINVAL };
+    }
+
+    this.mountManager.setUmask(parseInt(args[0], 8));
+    return { success: true, message: formatOctalMode(this.mountManager.getUmask()) };
+  }
+
+  // Handle whoami command
+  private handleWhoami(): CommandResult {
+    const user = this.mountManager.getCurrentUser();
+    return { success: true, message: user ? user.name : String(this.mountManager.getCredentials().uid) };
+  }
+
+  // Handle id command, e.g. "uid=1000(alice) gid=1000(alice) groups=1000(alice),27(sudo)"
+  private handleId(args: string[]): CommandResult {
+    const users = this.mountManager.getUserManager();
+    let credentials: Credentials = this.mountManager.getCredentials();
+
+    if (args.length > 0) {
+      const user = users.findUser(args[0]);
+      if (!user) {
+        return { success: false, message: `id: '${args[0]}': no such user` };
+      }
+      credentials = users.getCredentials(user);
+    }
+
+    const userName = (uid: number) => users.findUser(uid)?.name;
+    const groupName = (gid: number) => users.findGroup(gid)?.name;
+    const label = (id: number, name?: string) => name ? `${id}(${name})` : String(id);
+
+    const groups = [credentials.gid, ...credentials.groups.filter(g => g !== credentials.gid)];
+    return {
+      success: true,
+      message: `uid=${label(credentials.uid, userName(credentials.uid))} ` +
+        `gid=${label(credentials.gid, groupName(credentials.gid))} ` +
+        `groups=${groups.map(g => label(g, groupName(g))).join(',')}`
+    };
+  }
+
+  // Handle useradd command
+  private handleUseradd(args: string[]): CommandResult {
+    const usage = 'Usage: useradd [-u uid] [-g group] [-G group,...] [-d home] [-s shell] <name>';
+    const options: NewUserOptions = {};
+    let name: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+      const value = args[i + 1];
+      switch (args[i]) {
+        case '-u': options.uid = Number(value); i++; break;
+        case '-g': options.group = value; i++; break;
+        case '-G': options.groups = value?.split(','); i++; break;
+        case '-d': options.home = value; i++; break;
+        case '-s': options.shell = value; i++; break;
+        default: name = args[i];
+      }
+    }
+
+    if (!name || (options.uid !== undefined && !Number.isInteger(options.uid))) {
+      return { success: false, message: usage };
+    }
+
+    try {
+      const user = this.mountManager.getUserManager().addUser(name, options);
+      return { success: true, message: `User ${user.name} created with UID ${user.uid}, home ${user.home}` };
+    } catch (error) {
+      return this.failure('useradd', error);
+    }
+  }
+
+  // Handle groupadd command
+  private handleGroupadd(args: string[]): CommandResult {
+    let gid: number | undefined;
+    let name: string | undefined;
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '-g') {
+        gid = Number(args[++i]);
+      } else {
+        name = args[i];
+      }
+    }
+
+    if (!name || (gid !== undefined && !Number.isInteger(gid))) {
+      return { success: false, message: 'Usage: groupadd [-g gid] <name>' };
+    }
+
+    try {
+      const group = this.mountManager.getUserManager().addGroup(name, gid);
+      return { success: true, message: `Group ${group.name} created with GID ${group.gid}` };
+    } catch (error) {
+      return this.failure('groupadd', error);
+    }
+  }
+
+  // Handle passwd command: asks for the current password (unless root), then the new one twice
+  private handlePasswd(args: string[]): CommandResult {
+    const users = this.mountManager.getUserManager();
+    const callerUid = this.mountManager.getCredentials().uid;
+    const name = args[0] ?? this.mountManager.getCurrentUser()?.name;
+
+    let user;
+    try {
+      user = users.getUser(name);
+    } catch (error) {
+      return this.failure('passwd', error);
+    }
+
+    if (callerUid !== 0 && callerUid !== user.uid) {
+      return { success: false, message: `passwd: You may not view or modify password information for ${name}.` };
+    }
+
+    const askNewPassword = (): CommandResult => ({
+      success: true,
+      message: `Changing password for ${name}.`,
+      prompt: {
+        message: 'New password:',
+        secret: true,
+        respond: first => {
+          if (!first) {
+            return { success: false, message: 'passwd: No password has been supplied.' };
+          }
+          return {
+            success: true,
+            message: '',
+            prompt: {
+              message: 'Retype new password:',
+              secret: true,
+              respond: second => {
+                if (first !== second) {
+                  return { success: false, message: 'passwd: Sorry, passwords do not match. Password unchanged.' };
+                }
+                try {
+                  users.setPassword(name, first);
+                } catch (error) {
+                  return this.failure('passwd', error);
+                }
+                return { success: true, message: 'passwd: password updated successfully' };
+              }
+            }
+          };
+        }
+      }
+    });
+
+    if (callerUid === 0 || users.hasEmptyPassword(name)) {
+      return askNewPassword();
+    }
+
+    return {
+      success: true,
+      message: '',
+      prompt: {
+        message: 'Current password:',
+        secret: true,
+        respond: current => users.verifyPassword(name, current)
+          ? askNewPassword()
+          : { success: false, message: 'passwd: Authentication token manipulation error' }
+      }
+    };
+  }
+
+  // Handle su command: su [-] [user]
+  private handleSu(args: string[]): CommandResult {
+    const login = args.some(arg => arg === '-' || arg === '-l' || arg === '--login');
+    const name = args.find(arg => !arg.startsWith('-')) ?? 'root';
+    const users = this.mountManager.getUserManager();
+
+    // Each step reads the account files, which may be missing or unreadable
+    const attempt = (step: () => CommandResult): CommandResult => {
+      try {
+        return step();
+      } catch (error) {
+        return this.failure('su', error);
+      }
+    };
+
+    const switchUser = (): CommandResult => {
+      this.mountManager.switchUser(name, login);
+      return { success: true, message: '' };
+    };
+
+    return attempt(() => {
+      if (!users.findUser(name)) {
+        return { success: false, message: `su: user ${name} does not exist` };
+      }
+
+      // Root and password-less accounts don't need to authenticate
+      if (this.mountManager.getCredentials().uid === 0 || users.hasEmptyPassword(name)) {
+        return switchUser();
+      }
+
+      return {
+        success: true,
+        message: '',
+        prompt: {
+          message: 'Password:',
+          secret: true,
+          respond: password => attempt(() => users.verifyPassword(name, password)
+            ? switchUser()
+            : { success: false, message: 'su: Authentication failure' })
+        }
+      };
+    });
+  }
+
+  // Handle sudo command: run another command as root after checking the caller's own password
+  private handleSudo(args: string[]): CommandResult {
+    if (args.length < 1) {
+      return { success: false, message: 'Usage: sudo <command> [args...]' };
+    }
+
+    const users = this.mountManager.getUserManager();
+    const user = this.mountManager.getCurrentUser();
+    const runAsRoot = () => this.runWithCredentials(ROOT_CREDENTIALS, args[0].toLowerCase(), args.slice(1));
+
+    if (this.mountManager.getCredentials().uid === 0) {
+      return this.executeCommand(args[0].toLowerCase(), args.slice(1));
+    }
+
+    if (!user || !users.isSudoer(user)) {
+      return { success: false, message: `${user?.name ?? 'user'} is not in the sudoers file.` };
+    }
+
+    if (users.hasEmptyPassword(user.name)) {
+      return runAsRoot();
+    }
+
+    return {
+      success: true,
+      message: '',
+      prompt: {
+        message: `[sudo] password for ${user.name}:`,
+        secret: true,
+        respond: password => users.verifyPassword(user.name, password)
+          ? runAsRoot()
+          : { success: false, message: 'sudo: Sorry, try again.' }
+      }
+    };
+  }
+
+  // Run a command with other credentials, including any follow-up prompts it asks
+  private runWithCredentials(credentials: Credentials, command: string, args: string[]): CommandResult {
+    const wrap = (result: CommandResult): CommandResult => {
+      if (!result.prompt) return result;
+      const { respond } = result.prompt;
+      return {
+        ...result,
+        prompt: {
+          ...result.prompt,
+          respond: input => wrap(this.mountManager.runAs(credentials, () => respond(input)))
+        }
+      };
+    };
+
+    return wrap(this.mountManager.runAs(credentials, () => this.executeCommand(command, args)));
+  }
+
+  // Run a file of commands, one per line, with $1 to $9 replaced by the arguments.
+  // Blank lines and # comments are skipped; the script stops at exit or at the first
+  // command that fails. Commands that ask for input or finish later can't run in one.
+  private handleScript(path: string, args: string[]): CommandResult {
+    if (this.scriptDepth >= MAX_SCRIPT_DEPTH) {
+      return { success: false, message: `${path}: scripts nested too deeply` };
+    }
+
+    let credentials: Credentials;
+    let lines: string[];
+    try {
+      credentials = this.mountManager.getExecCredentials(path);
+      lines = this.mountManager.readFile(path).split('\n');
+    } catch (error) {
+      return this.failure(path, error);
+    }
+
+    const output: string[] = [];
+    const finish = (result: CommandResult): CommandResult =>
+      ({ ...result, message: [...output, result.message].filter(Boolean).join('\n') });
+
+    this.scriptDepth++;
+    try {
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim().replace(/\$([1-9])/g, (_, n) => args[Number(n) - 1] ?? '');
+        if (!line || line.startsWith('#')) continue;
+        if (line === 'exit' || line.startsWith('exit ')) break;
+
+        const result = this.mountManager.runAs(credentials, () => this.parseCommand(line));
+        if (result.prompt || result.pending) {
+          return finish({ success: false, message: `${path}: line ${i + 1}: ${line.split(' ')[0]} can't run in a script` });
+        }
+        if (!result.success) {
+          return finish(result);
+        }
+        if (result.message && result.message !== 'CLEAR_SCREEN') {
+          output.push(result.message);
+        }
+      }
+    } finally {
+      this.scriptDepth--;
+    }
+    return finish({ success: true, message: '' });
+  }
+
+  // Handle mv command: mv [-i|-n|-f] <source>... <destination>
+  // -i asks before overwriting, -n never overwrites, -f (the default) overwrites silently;
+  // when several are given the last one wins.
+  private handleMove(args: string[]): CommandResult {
+    let overwrite: 'force' | 'interactive' | 'no-clobber' = 'force';
+    const paths: string[] = [];
+
+    for (const arg of args) {
+      if (/^-[ifn]+$/.test(arg)) {
+        for (const flag of arg.substring(1)) {
+          overwrite = flag === 'i' ? 'interactive' : flag === 'n' ? 'no-clobber' : 'force';
+        }
+      } else {
+        paths.push(arg);
+      }
+    }
+
+    if (paths.length < 2) {
+      return { success: false, message: 'Usage: mv [-i|-n|-f] <source>... <destination>' };
+    }
+
+    const destination = paths.pop();
+    const intoDirectory = this.isDirectory(destination);
+    if (paths.length > 1 && !intoDirectory) {
+      return { success: false, message: `mv: target '${destination}' is not a directory`, code: ErrorCode.ENOTDIR };
+    }
+
+    const output: string[] = [];
+    let failure: CommandResult | null = null;
+
+    const moveOne = (source: string, target: string) => {
+      try {
+        this.mountManager.move(source, target);
+        output.push(`renamed '${source}' -> '${target}'`);
+      } catch (error) {
+        failure = this.failure(`mv: cannot move '${source}' to '${target}'`, error);
+        output.push(failure.message);
+      }
+    };
+
+    // Move sources in order, pausing to ask when -i hits an existing destination
+    const moveFrom = (index: number): CommandResult => {
+      for (let i = index; i < paths.length; i++) {
+        const source = paths[i];
+        const target = intoDirectory ? this.joinPath(destination, this.baseName(source)) : destination;
+
+        if (overwrite !== 'force' && this.lexists(target)) {
+          if (overwrite === 'no-clobber') continue;
+
+          return {
+            success: true,
+            message: output.splice(0).join('\n'),
+            prompt: {
+              message: `mv: overwrite '${target}'?`,
+              respond: answer => {
+                if (/^y/i.test(answer.trim())) {
+                  moveOne(source, target);
+                }
+                return moveFrom(i + 1);
+              }
+            }
+          };
+        }
+
+        moveOne(source, target);
+      }
+
+      return {
+        success: failure === null,
+        message: output.join('\n'),
+        code: failure?.code
+      };
+    };
+
+    return moveFrom(0);
+  }
+
+  // Handle export command: export <path> [file] writes a JSON snapshot of the tree at
+  // path to file, or offers it for download when no file is given
+  private handleExport(args: string[]): CommandResult {
+    const [path, file] = args;
+    if (!path) {
+      return { success: false, message: 'Usage: export <path> [file]' };
+    }
+
+    let snapshot;
+    try {
+      snapshot = createSnapshot(this.mountManager, path);
+    } catch (error) {
+      return this.failure(`export: ${path}`, error);
+    }
+    const text = formatSnapshot(snapshot);
+
+    if (!file) {
+      return {
+        success: true,
+        message: `Downloading snapshot of ${snapshot.path}`,
+        download: { name: `${snapshot.root.name || 'root'}.json`, data: text, type: 'application/json' }
+      };
+    }
+
+    try {
+      this.mountManager.writeFile(file, text);
+    } catch (error) {
+      return this.failure(`export: ${file}`, error);
+    }
+    return { success: true, message: `Exported ${snapshot.path} to ${file}` };
+  }
+
+  // Handle import command: import <file> [path] recreates a snapshot written by export
+  private handleImport(args: string[]): CommandResult {
+    const [file, path] = args;
+    if (!file) {
+      return { success: false, message: 'Usage: import <file> [path]' };
+    }
+
+    let snapshot;
+    try {
+      snapshot = parseSnapshot(this.mountManager.readFile(file));
+    } catch (error) {
+      return this.failure(`import: ${file}`, error);
+    }
+
+    const target = path ?? snapshot.path;
+    let result;
+    try {
+      result = importSnapshot(this.mountManager, snapshot, target);
+    } catch (error) {
+      return this.failure(`import: ${target}`, error);
+    }
+
+    const lines = [
+      `Imported ${result.imported} entries into ${target}`,
+      ...result.mounted.map(mountPoint => `Mounted ${mountPoint}`),
+      ...result.errors.map(error => `import: ${error}`)
+    ];
+    return { success: result.errors.length === 0, message: lines.join('\n') };
+  }
+
+  // Handle tar command: tar -c|-t|-x [-zv] -f <archive> [-C dir] [path...]. The flags
+  // may be bundled, with or without a dash (tar czf a.tgz dir).
+  private handleTar(args: string[]): CommandResult {
+    let mode: 'c' | 't' | 'x' | null = null;
+    let compress = false;
+    let verbose = false;
+    let archive: string | null = null;
+    let directory = '.';
+    const paths: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      const flags = arg.startsWith('-') && arg.length > 1 ? arg.substring(1) : i === 0 ? arg : null;
+      if (flags === null) {
+        paths.push(arg);
+        continue;
+      }
+      for (const flag of flags) {
+        switch (flag) {
+          case 'c':
+          case 't':
+          case 'x':
+            if (mode !== null && mode !== flag) {
+              return { success: false, message: "tar: You may not specify more than one '-ctx' option" };
+            }
+            mode = flag;
+            break;
+          case 'z':
+            compress = true;
+            break;
+          case 'v':
+            verbose = true;
+            break;
+          case 'f':
+          case 'C': {
+            const value = args[++i];
+            if (value === undefined) {
+              return { success: false, message: `tar: option requires an argument -- '${flag}'` };
+            }
+            if (flag === 'f') {
+              archive = value;
+            } else {
+              directory = value;
+            }
+            break;
+          }
+          default:
+            return { success: false, message: `tar: invalid option -- '${flag}'` };
+        }
+      }
+    }
+
+    if (mode === null) {
+      return { success: false, message: "tar: You must specify one of the '-ctx' options" };
+    }
+    if (archive === null) {
+      return { success: false, message: 'tar: an archive must be given with -f' };
+    }
+    return mode === 'c'
+      ? this.createTar(archive, paths, directory, compress, verbose)
+      : this.readTarArchive(archive, mode === 'x' ? directory : null, compress, verbose);
+  }
+
+  // tar -c: archive paths into a new file, gzip-compressed if asked
+  private createTar(archive: string, paths: string[], directory: string, compress: boolean, verbose: boolean): CommandResult {
+    if (paths.length === 0) {
+      return { success: false, message: 'tar: Cowardly refusing to create an empty archive' };
+    }
+
+    let collected;
+    try {
+      collected = collectArchiveEntries(this.mountManager, paths, directory, archive);
+    } catch (error) {
+      return this.failure('tar', error);
+    }
+    const { entries, warnings, strippedRoot } = collected;
+
+    const finish = (bytes: Uint8Array): CommandResult => {
+      try {
+        this.mountManager.writeFile(archive, bytes);
+      } catch (error) {
+        return this.failure(`tar: ${archive}: Cannot open`, error);
+      }
+      const lines = [
+        ...(strippedRoot ? ["tar: Removing leading '/' from member names"] : []),
+        ...warnings.map(warning => `tar: ${warning}`),
+        ...(verbose
+          ? entries.map(formatEntryName)
+          : [`Created ${archive} with ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`])
+      ];
+      return { success: warnings.length === 0, message: lines.join('\n') };
+    };
+
+    let bytes;
+    try {
+      bytes = writeTar(entries);
+    } catch (error) {
+      return this.failure('tar', error);
+    }
+    if (!compress) {
+      return finish(bytes);
+    }
+
+    // Compression finishes later, so the write then needs the credentials of now (sudo)
+    const credentials = this.mountManager.getCredentials();
+    return {
+      success: true,
+      message: '',
+      pending: gzip(bytes).then(
+        compressed => this.mountManager.runAs(credentials, () => finish(compressed)),
+        error => ({ success: false, message: `tar: ${error instanceof Error ? error.message : String(error)}` })
+      )
+    };
+  }
+
+  // tar -t and tar -x: list an archive's entries, or extract them below directory.
+  // Compressed archives are recognised whether or not -z is given.
+  private readTarArchive(archive: string, directory: string | null, compress: boolean, verbose: boolean): CommandResult {
+    let bytes;
+    try {
+      bytes = this.mountManager.readFileBytes(archive);
+    } catch (error) {
+      return this.failure(`tar: ${archive}: Cannot open`, error);
+    }
+
+    const finish = (data: Uint8Array): CommandResult => {
+      let entries;
+      try {
+        entries = readTar(data);
+      } catch (error) {
+        return this.failure('tar', error);
+      }
+
+      if (directory === null) {
+        const lines = verbose ? this.formatTarListing(entries) : entries.map(formatEntryName);
+        return { success: true, message: lines.join('\n') };
+      }
+
+      let result;
+      try {
+        result = extractArchiveEntries(this.mountManager, entries, directory);
+      } catch (error) {
+        return this.failure(`tar: ${directory}`, error);
+      }
+      const lines = [
+        ...(verbose
+          ? result.extracted.map(formatEntryName)
+          : [`Extracted ${result.extracted.length} entr${result.extracted.length === 1 ? 'y' : 'ies'} into ${directory}`]),
+        ...result.errors.map(error => `tar: ${error}`)
+      ];
+      return { success: result.errors.length === 0, message: lines.join('\n') };
+    };
+
+    if (!compress && !isGzip(bytes)) {
+      return finish(bytes);
+    }
+
+    // Decompression finishes later, so extracting then needs the credentials of now (sudo)
+    const credentials = this.mountManager.getCredentials();
+    return {
+      success: true,
+      message: '',
+      pending: gunzip(bytes).then(
+        data => this.mountManager.runAs(credentials, () => finish(data)),
+        error => ({ success: false, message: `tar: ${archive}: ${error instanceof Error ? error.message : String(error)}` })
+      )
+    };
+  }
+
+  // Format archive entries as tar -tv lines: mode, owner/group, size, time and name
+  private formatTarListing(entries: ArchiveEntry[]): string[] {
+    const typeChars: Record<ArchiveEntryType, string> = { file: '-', hardlink: 'h', symlink: 'l', directory: 'd' };
+    const rows = entries.map(entry => [
+      formatMode(entry.mode, typeChars[entry.type]),
+      `${entry.uname || entry.uid}/${entry.gname || entry.gid}`,
+      String(entry.data.length),
+      formatTimestamp(entry.mtime, 'long-iso'),
+      entry.type === 'symlink' ? `${entry.name} -> ${entry.linkname}`
+        : entry.type === 'hardlink' ? `${entry.name} link to ${entry.linkname}`
+          : formatEntryName(entry)
+    ]);
+
+    // Owner and size share one column in GNU tar, padded to line up the sizes
+    const width = Math.max(...rows.map(([, owner, size]) => owner.length + size.length));
+    return rows.map(([mode, owner, size, time, name]) =>
+      `${mode} ${owner} ${size.padStart(width - owner.length)} ${time} ${name}`);
+  }
+
+  // Handle zip command: zip [-r] [-q] <archive.zip> <path>... adds files to an archive,
+  // creating it, or replacing entries of the same name in an existing one. Without -r
+  // a directory is added on its own, without what's in it.
+  private handleZip(args: string[]): CommandResult {
+    const flags = args.filter(arg => arg.startsWith('-')).join('').replace(/-/g, '');
+    const unknown = flags.replace(/[rq]/g, '');
+    if (unknown !== '') {
+      return { success: false, message: `zip error: Invalid command arguments (short option '${unknown[0]}' not supported)` };
+    }
+    const [archive, ...paths] = args.filter(arg => !arg.startsWith('-'));
+    if (!archive || paths.length === 0) {
+      return { success: false, message: 'Usage: zip [-r] [-q] <archive.zip> <path>...' };
+    }
+    const recursive = flags.includes('r');
+    const quiet = flags.includes('q');
+    // Like Info-ZIP, add .zip to a name without an extension
+    const target = /\.[^/]*$/.test(archive) ? archive : `${archive}.zip`;
+
+    let existing: ArchiveEntry[] = [];
+    if (this.mountManager.exists(target)) {
+      try {
+        existing = readZip(this.mountManager.readFileBytes(target));
+      } catch (error) {
+        if (error instanceof ArchiveError) {
+          return { success: false, message: `zip error: Zip file structure invalid (${target})` };
+        }
+        return this.failure(`zip: ${target}`, error);
+      }
+    }
+
+    let collected;
+    try {
+      collected = collectArchiveEntries(this.mountManager, paths, '.', target);
+    } catch (error) {
+      return this.failure('zip', error);
+    }
+    const topNames = new Set(paths.map(path => path.replace(/\/+$/, '').replace(/^\/+/, '')));
+    const added = recursive ? collected.entries : collected.entries.filter(entry => topNames.has(entry.name));
+    const addedNames = new Set(added.map(entry => entry.name));
+    const replaced = new Set(existing.map(entry => entry.name).filter(name => addedNames.has(name)));
+    // Replaced entries keep their place; new ones go at the end
+    const addedByName = new Map(added.map(entry => [entry.name, entry]));
+    const entries = [
+      ...existing.map(entry => addedByName.get(entry.name) ?? entry),
+      ...added.filter(entry => !replaced.has(entry.name))
+    ];
+
+    const finish = ({ bytes, members }: ZipArchive): CommandResult => {
+      try {
+        this.mountManager.writeFile(target, bytes);
+      } catch (error) {
+        return this.failure(`zip: ${target}`, error);
+      }
+      const lines = [
+        ...(quiet ? [] : members.filter(member => addedNames.has(member.name)).map(member => {
+          const name = member.type === 'directory' ? `${member.name}/` : member.name;
+          const saved = member.size === 0 ? 0 : Math.round((1 - member.compressedSize / member.size) * 100);
+          const how = member.method === METHOD_DEFLATED ? `deflated ${saved}%` : 'stored 0%';
+          return `  ${replaced.has(member.name) ? 'updating' : 'adding'}: ${name} (${how})`;
+        })),
+        ...collected.warnings.map(warning => `zip warning: ${warning}`)
+      ];
+      return { success: collected.warnings.length === 0, message: lines.join('\n') };
+    };
+
+    // Compression finishes later, so the write then needs the credentials of now (sudo)
+    const credentials = this.mountManager.getCredentials();
+    return {
+      success: true,
+      message: '',
+      pending: writeZip(entries).then(
+        archiveData => this.mountManager.runAs(credentials, () => finish(archiveData)),
+        error => ({ success: false, message: `zip error: ${error instanceof Error ? error.message : String(error)}` })
+      )
+    };
+  }
+
+  // Handle unzip command: unzip [-l] [-q] <archive.zip> [-d dir] extracts an archive,
+  // replacing files that already exist, or lists its contents with -l
+  private handleUnzip(args: string[]): CommandResult {
+    const usage = { success: false, message: 'Usage: unzip [-l] [-q] <archive.zip> [-d dir]' };
+    let list = false;
+    let quiet = false;
+    let directory = '.';
+    const positional: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === '-d') {
+        if (args[i + 1] === undefined) return usage;
+        directory = args[++i];
+      } else if (arg.startsWith('-')) {
+        for (const flag of arg.substring(1)) {
+          if (flag === 'l') list = true;
+          else if (flag === 'q') quiet = true;
+          else return { success: false, message: `unzip: invalid option -- '${flag}'` };
+        }
+      } else {
+        positional.push(arg);
+      }
+    }
+    const [archive] = positional;
+    if (!archive) return usage;
+
+    let bytes;
+    let members;
+    try {
+      bytes = this.mountManager.readFileBytes(archive);
+      members = readZipDirectory(bytes);
+    } catch (error) {
+      return this.failure(`unzip: ${archive}`, error);
+    }
+
+    if (list) {
+      return { success: true, message: [`Archive:  ${archive}`, ...this.formatZipListing(members)].join('\n') };
+    }
+
+    // A damaged entry is reported and skipped, like unzip does
+    const lines = quiet ? [] : [`Archive:  ${archive}`];
+    const errors: string[] = [];
+    const memberOf = new Map<ArchiveEntry, ZipMember>();
+    for (const member of members) {
+      try {
+        memberOf.set(readZipEntry(bytes, member), member);
+      } catch (error) {
+        if (!(error instanceof ArchiveError)) throw error;
+        errors.push(`unzip: ${error.message}`);
+      }
+    }
+
+    let result;
+    try {
+      result = extractArchiveEntries(this.mountManager, Array.from(memberOf.keys()), directory);
+    } catch (error) {
+      return this.failure(`unzip: ${directory}`, error);
+    }
+    if (!quiet) {
+      lines.push(...result.extracted.map(entry => {
+        const member = memberOf.get(entry)!;
+        switch (entry.type) {
+          case 'directory':
+            return `   creating: ${formatEntryName(entry)}`;
+          case 'symlink':
+            return `    linking: ${entry.name}  -> ${entry.linkname}`;
+          default:
+            return `${member.method === METHOD_DEFLATED ? '  inflating' : ' extracting'}: ${entry.name}`;
+        }
+      }));
+    }
+    errors.push(...result.errors.map(error => `unzip: ${error}`));
+    return { success: errors.length === 0, message: [...lines, ...errors].join('\n') };
+  }
+
+  // Format archive members as unzip -l does: length, date, time and name, with totals
+  private formatZipListing(members: ZipMember[]): string[] {
+    const total = members.reduce((sum, member) => sum + member.size, 0);
+    const width = Math.max(9, String(total).length);
+    const rule = '-'.repeat(width);
+    return [
+      `${'Length'.padStart(width - 1)}      Date    Time    Name`,
+      `${rule}  ---------- -----   ----`,
+      ...members.map(member => `${String(member.size).padStart(width)}  ${formatTimestamp(member.mtime, 'long-iso')}   ${
+        member.type === 'directory' ? `${member.name}/` : member.name}`),
+      `${rule}                     -------`,
+      `${String(total).padStart(width)}                     ${members.length} file${members.length === 1 ? '' : 's'}`
+    ];
+  }
+
+  // Handle download command: offer a file to the browser to save
+  private handleDownload(args: string[]): CommandResult {
+    const [file] = args;
+    if (!file) {
+      return { success: false, message: 'Usage: download <file>' };
+    }
+
+    let data;
+    try {
+      data = this.mountManager.readFileBytes(file);
+    } catch (error) {
+      return this.failure(`download: ${file}`, error);
+    }
+    const name = file.replace(/\/+$/, '').split('/').pop() || 'download';
+    return {
+      success: true,
+      message: `Downloading ${file}`,
+      download: { name, data, type: 'application/octet-stream' }
+    };
+  }
+
+  // Handle snapshot command: create, list, diff, restore or delete snapshots of a
+  // mounted filesystem, named <mount_point>@<name> in output
+  private handleSnapshot(args: string[]): CommandResult {
+    const [subcommand, mountPoint, name, otherName] = args;
+    const usage = {
+      success: false,
+      message: 'Usage: snapshot create|restore|delete <mount_point> <name> | snapshot diff <mount_point> <name> [other] | snapshot list [mount_point]'
+    };
+
+    if (subcommand === 'list') {
+      let listed;
+      try {
+        listed = mountPoint !== undefined
+          ? [{ path: this.mountManager.normalizePath(mountPoint), snapshots: this.mountManager.getSnapshots(mountPoint) }]
+          : this.mountManager.getMounts()
+            .filter(m => m.root === '/' && m.filesystem.snapshots.length > 0)
+            .map(m => ({ path: m.path, snapshots: m.filesystem.snapshots }));
+      } catch (error) {
+        return this.failure(`snapshot: ${mountPoint}`, error);
+      }
+
+      const rows = listed.flatMap(({ path, snapshots }) =>
+        snapshots.map(snapshot => [`${path}@${snapshot.name}`, formatTimestamp(snapshot.createdAt, 'long-iso')]));
+      if (rows.length === 0) {
+        return { success: true, message: 'No snapshots' };
+      }
+      const width = Math.max(4, ...rows.map(([label]) => label.length));
+      return {
+        success: true,
+        message: [['NAME', 'CREATED'], ...rows].map(([label, created]) => `${label.padEnd(width)}  ${created}`).join('\n')
+      };
+    }
+
+    if (!mountPoint || !name || (otherName !== undefined && subcommand !== 'diff')) {
+      return usage;
+    }
+    const label = `${this.mountManager.normalizePath(mountPoint)}@${name}`;
+
+    try {
+      switch (subcommand) {
+        case 'create':
+          this.mountManager.createSnapshot(mountPoint, name);
+          return { success: true, message: `Created snapshot ${label}` };
+        case 'restore':
+          this.mountManager.restoreSnapshot(mountPoint, name);
+          return { success: true, message: `Restored ${this.mountManager.normalizePath(mountPoint)} to snapshot ${name}` };
+        case 'delete':
+          this.mountManager.deleteSnapshot(mountPoint, name);
+          return { success: true, message: `Deleted snapshot ${label}` };
+        case 'diff': {
+          const changes = this.mountManager.diffSnapshot(mountPoint, name, otherName ?? null);
+          if (changes.length === 0) {
+            return { success: true, message: `No changes since ${label}` };
+          }
+          return { success: true, message: changes.map(({ change, path }) => `${change} ${path}`).join('\n') };
+        }
+        default:
+          return usage;
+      }
+    } catch (error) {
+      return this.failure(`snapshot: ${label}`, error);
+    }
+  }
+
+  // Handle sync command: save whatever hasn't been saved yet
+  private handleSync(): CommandResult {
+    if (!this.persistence?.isAvailable()) {
+      return { success: false, message: 'sync: no persistent storage is available' };
+    }
+
+    return {
+      success: true,
+      message: '',
+      pending: this.persistence.sync().then(
+        ({ written }) => ({
+          success: true,
+          message: written === 0 ? 'Everything is already saved' : `Saved ${written} filesystem${written === 1 ? '' : 's'}`
+        }),
+        error => ({ success: false, message: `sync: ${error instanceof Error ? error.message : String(error)}` })
+      )
+    };
+  }
+
+  // Handle reset command: after confirmation, erase what's saved and start again
+  private handleReset(): CommandResult {
+    return {
+      success: true,
+      message: '',
+      prompt: {
+        message: 'reset: erase all files, users and mounts and start over? [y/N]',
+        respond: answer => {
+          if (!/^y/i.test(answer.trim())) {
+            return { success: true, message: 'Nothing was erased' };
+          }
+          // Reloading the page brings up a fresh system once nothing is saved
+          if (!this.persistence) {
+            return { success: true, message: 'RELOAD' };
+          }
+          return {
+            success: true,
+            message: '',
+            pending: this.persistence.reset().then(
+              () => ({ success: true, message: 'RELOAD' }),
+              error => ({ success: false, message: `reset: ${error instanceof Error ? error.message : String(error)}` })
+            )
+          };
+        }
+      }
+    };
   }
 
   // Handle help command
@@ -352,18 +2056,71 @@ Available commands:
   mkdir <path> [-p]     - Create a directory (use -p for recursive creation)
   create_file <path>    - Create an empty file
   write_file <path> <content> - Write content to a file
-  read_file <path>      - Display file content
-  ls [path]             - List directory contents
-  cd <path>             - Change current directory
+  read_file [--encoding=ENC] <path> - Display file content (decoded as UTF-8 by default)
+  hexdump [-C] <path>   - Show file bytes in hex and ASCII
+  xxd <path>            - Show file bytes in xxd's hex format
+  file <path>...        - Identify file types from their content
+  ls [-l] [--time-style=STYLE] [path] - List directory contents (use -l for details)
+  cd [path]             - Change current directory (defaults to your home)
   pwd                   - Print working directory
-  mount <fs_type> <mount_point> - Mount a new filesystem
-  unmount <mount_point> - Unmount a filesystem
+  mount [-o options] <fs_type> [source] <mount_point> - Mount a new filesystem (root only):
+                          devfs, ext4, fat32, overlay, proc, tmpfs or zip. Options: ro, rw, noexec, nosuid;
+                          tmpfs also takes size=N[k|M|G], overlay needs lowerdir=<dir>,upperdir=<dir>,
+                          zip needs an archive as source (mount zip <archive.zip> <mount_point>);
+                          fat32 names are case-insensitive VFAT long names, not limited to 8.3
+  mount -o remount,<options> <mount_point> - Change the options of a mounted filesystem (root only)
+  mount --bind [-o options] <source> <mount_point> - Show an existing directory at a second path (root only)
+  mount -a              - Mount everything listed in /etc/fstab that isn't mounted yet (root only)
+                          ("<source> <mount_point> <type> [options] [dump] [pass]" per line,
+                          applied at startup; noauto entries are skipped)
+  umount [-l] [-R] <mount_point> - Unmount a filesystem, root only (-l detach even if busy,
+                          moving working directories inside it out to the mount point;
+                          -R also unmount everything below it); also spelled unmount
   mounts                - List mounted filesystems
-  rm <path>             - Remove a file or directory
-  cp <source> <dest>    - Copy a file from source to destination
+  rm [-r] [-f|-i] <path>... - Remove files (-r directories and their contents,
+                          -f ignore missing files, -i ask before each removal)
+  rmdir <directory>...  - Remove empty directories
+  cp [-r] [-a] [-n] [-u] <source>... <dest> - Copy files (-r directories, -a preserve attributes,
+                          -n never overwrite, -u only replace older files)
+  mv [-i|-n|-f] <source>... <dest> - Move or rename files and directories
+  ln [-s] [-f] <target> [link] - Create a hard link (or symbolic link with -s)
+  readlink [-f] <path>  - Print the target of a symbolic link
+  realpath <path>       - Print the path with all symbolic links resolved
+  stat [-L] <path>      - Show size, permissions, owner and timestamps
+  touch [-amc] [-d date|-t stamp|-r file] <path> - Create a file or update its times
+  chmod <mode> <path>   - Change permissions (octal like 755 or symbolic like u+x,go-w)
+  chown <uid>[:<gid>] <path> - Change owner and group
+  chgrp <gid> <path>    - Change group
+  umask [mask]          - Show or set the file creation mask
+  whoami                - Print the current user name
+  id [user]             - Print user and group IDs
+  useradd [-u uid] [-g group] [-G groups] [-d home] <name> - Create a user and its home directory
+  groupadd [-g gid] <name> - Create a group
+  passwd [user]         - Change a password
+  su [-] [user]         - Switch user (use - to start in their home); exit to return
+  sudo <command>        - Run a command as root
+  <path> [args...]      - Run a script: a file of commands, one per line, with $1-$9 as its
+                          arguments. It needs execute permission and can't run from a noexec
+                          mount; setuid/setgid scripts run as the file's owner/group unless nosuid
+  export <path> [file]  - Save the tree at path as a JSON snapshot in file, or download it
+  import <file> [path]  - Recreate a JSON snapshot at path (default: where it was exported from)
+  tar -c|-t|-x [-zv] -f <archive> [-C dir] [path...] - Create (-c), list (-t) or extract (-x)
+                          a tar archive; -z compresses with gzip, -C works from dir
+  zip [-r] [-q] <archive.zip> <path>... - Add files to a zip archive (-r with directory contents)
+  unzip [-l] [-q] <archive.zip> [-d dir] - Extract a zip archive into dir, or list it with -l
+  snapshot create|restore|delete <mount_point> <name> - Take a snapshot of a mounted
+                          filesystem, roll it back to one, or delete one (root only).
+                          The first snapshot copies the whole tree; later ones only
+                          walk directories changed since, or that hold hard links
+  snapshot diff <mount_point> <name> [other] - List what was added (+), removed (-) or
+                          changed (M) since a snapshot, or between two snapshots
+  snapshot list [mount_point] - List snapshots with when they were taken
+  download <file>       - Save a file from the virtual tree to your computer
+  sync                  - Save all changes to browser storage now (they're also saved as you go)
+  reset                 - Erase everything saved and start again with a fresh system
   clear                 - Clear the screen
   help                  - Show this help
-  exit                  - Exit the CLI
+  exit                  - Leave an su session, or exit the CLI
     `.trim();
     
     return { success: true, message: helpText };
@@ -0,0 +1,32 @@
+import { ArchiveError } from '../models/Archive';
+
+// Run bytes through one of the browser's compression streams
+function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Response(output).arrayBuffer().then(buffer => new Uint8Array(buffer));
+}
+
+// Check for the gzip magic number
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+// Compress bytes in gzip format
+export function gzip(bytes: Uint8Array): Promise<Uint8Array> {
+  return transform(bytes, new CompressionStream('gzip'));
+}
+
+// Decompress gzip data; anything else (or a damaged stream) is an ArchiveError
+export function gunzip(bytes: Uint8Array): Promise<Uint8Array> {
+  if (!isGzip(bytes)) {
+    return Promise.reject(new ArchiveError('not in gzip format'));
+  }
+  return transform(bytes, new DecompressionStream('gzip')).catch(() => {
+    throw new ArchiveError('unexpected end of file or corrupt gzip data');
+  });
+}
+
+// Compress bytes as raw DEFLATE data, without the gzip wrapper, as zip archives store them
+export function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  return transform(bytes, new CompressionStream('deflate-raw'));
+}
@@ -0,0 +1,19 @@
+import { FileData } from '../models/FileContent';
+
+// A file handed to the browser to save, e.g. by export without a destination
+export interface DownloadFile {
+  name: string; // Suggested file name
+  data: FileData;
+  type: string; // MIME type
+}
+
+// Save a file through the browser's download mechanism
+export function downloadFile({ name, data, type }: DownloadFile): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // The download has started by the next tick, so the URL can go
+  setTimeout(() => URL.revokeObjectURL(url));
+}
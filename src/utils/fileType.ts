@@ -0,0 +1,95 @@
+// A signature recognised at the start of a file (or at a fixed offset)
+interface MagicSignature {
+  offset: number;
+  bytes: number[];
+  describe: (data: Uint8Array) => string;
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+// Read a big-endian 32-bit unsigned integer
+const readUint32BE = (data: Uint8Array, offset: number) =>
+  ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+
+// Text found at an offset, stopping at the first NUL
+const readString = (data: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...data.subarray(offset, offset + length)).split('\0')[0];
+
+// Signatures are checked in order, so longer or more specific ones come first
+const SIGNATURES: MagicSignature[] = [
+  {
+    offset: 0,
+    bytes: [0x89, ...ascii('PNG\r\n\x1a\n')],
+    describe: data => data.length >= 24
+      ? `PNG image data, ${readUint32BE(data, 16)} x ${readUint32BE(data, 20)}`
+      : 'PNG image data'
+  },
+  { offset: 0, bytes: [0xff, 0xd8, 0xff], describe: () => 'JPEG image data' },
+  { offset: 0, bytes: ascii('GIF8'), describe: data => `GIF image data, version ${readString(data, 3, 3)}` },
+  { offset: 0, bytes: ascii('%PDF-'), describe: data => `PDF document, version ${readString(data, 5, 3)}` },
+  { offset: 0, bytes: [...ascii('PK'), 0x03, 0x04], describe: () => 'Zip archive data' },
+  { offset: 0, bytes: [...ascii('PK'), 0x05, 0x06], describe: () => 'Zip archive data (empty)' },
+  { offset: 0, bytes: [0x1f, 0x8b], describe: () => 'gzip compressed data' },
+  { offset: 0, bytes: ascii('BZh'), describe: () => 'bzip2 compressed data' },
+  { offset: 0, bytes: [0xfd, ...ascii('7zXZ'), 0x00], describe: () => 'XZ compressed data' },
+  { offset: 257, bytes: ascii('ustar'), describe: () => 'POSIX tar archive' },
+  { offset: 0, bytes: [0x7f, ...ascii('ELF')], describe: data => `ELF ${data[4] === 2 ? '64' : '32'}-bit executable` },
+  { offset: 0, bytes: [0x00, ...ascii('asm')], describe: () => 'WebAssembly (wasm) binary module' },
+  { offset: 0, bytes: ascii('SQLite format 3\0'), describe: () => 'SQLite 3.x database' },
+  {
+    offset: 0,
+    bytes: ascii('RIFF'),
+    describe: data => {
+      switch (readString(data, 8, 4)) {
+        case 'WAVE': return 'RIFF (little-endian) data, WAVE audio';
+        case 'WEBP': return 'RIFF (little-endian) data, Web/P image';
+        case 'AVI ': return 'RIFF (little-endian) data, AVI';
+        default: return 'RIFF (little-endian) data';
+      }
+    }
+  },
+  { offset: 0, bytes: ascii('OggS'), describe: () => 'Ogg data' },
+  { offset: 0, bytes: ascii('ID3'), describe: () => 'Audio file with ID3 version 2' }
+];
+
+// Check whether the signature bytes appear at the signature's offset
+function matches(data: Uint8Array, signature: MagicSignature): boolean {
+  if (data.length < signature.offset + signature.bytes.length) {
+    return false;
+  }
+  return signature.bytes.every((byte, i) => data[signature.offset + i] === byte);
+}
+
+// Classify content that isn't a known binary format as text or data
+function describeText(data: Uint8Array): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    // Not UTF-8; printable single-byte text is most likely Latin-1
+    const latin1 = data.every(byte => byte >= 0xa0 || (byte >= 0x20 && byte < 0x7f) || (byte >= 0x09 && byte <= 0x0d));
+    return latin1 ? 'ISO-8859 text' : 'data';
+  }
+
+  // Control characters other than whitespace mean it isn't text
+  if (data.some(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20) || byte === 0x7f)) {
+    return 'data';
+  }
+
+  const charset = data.every(byte => byte < 0x80) ? 'ASCII text' : 'Unicode text, UTF-8 text';
+  const interpreter = /^#!\s*(\S+)/.exec(text);
+  if (interpreter) {
+    return `${interpreter[1]} script, ${charset} executable`;
+  }
+  return charset;
+}
+
+// Describe file content the way file(1) does, from magic numbers or a text check
+export function detectFileType(data: Uint8Array): string {
+  if (data.length === 0) {
+    return 'empty';
+  }
+
+  const signature = SIGNATURES.find(sig => matches(data, sig));
+  return signature ? signature.describe(data) : describeText(data);
+}
@@ -0,0 +1,54 @@
+const BYTES_PER_LINE = 16;
+
+const hex = (value: number, length: number) => value.toString(16).padStart(length, '0');
+
+// Printable ASCII for the text column, '.' for everything else
+function printable(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+}
+
+// Canonical hex+ASCII display, as printed by hexdump -C:
+// 00000000  48 65 6c 6c 6f 0a                                 |Hello.|
+// Runs of lines identical to the one before are squeezed into a single "*".
+export function formatHexdump(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  let previous: Uint8Array | null = null;
+
+  for (let offset = 0; offset < bytes.length; offset += BYTES_PER_LINE) {
+    const chunk = bytes.subarray(offset, offset + BYTES_PER_LINE);
+    const repeated = previous !== null && chunk.length === previous.length
+      && chunk.every((byte, i) => byte === previous![i]);
+    previous = chunk;
+    if (repeated) {
+      if (lines[lines.length - 1] !== '*') lines.push('*');
+      continue;
+    }
+
+    const columns = Array.from(chunk, byte => hex(byte, 2));
+    const left = columns.slice(0, 8).join(' ');
+    const right = columns.slice(8).join(' ');
+    const hexPart = `${left.padEnd(23)}  ${right.padEnd(23)}`;
+    lines.push(`${hex(offset, 8)}  ${hexPart}  |${printable(chunk)}|`);
+  }
+
+  // The last line gives the total length
+  lines.push(hex(bytes.length, 8));
+  return lines.join('\n');
+}
+
+// Hex dump in the style of xxd, with bytes grouped in pairs:
+// 00000000: 4865 6c6c 6f0a                           Hello.
+export function formatXxd(bytes: Uint8Array): string {
+  const lines: string[] = [];
+
+  for (let offset = 0; offset < bytes.length; offset += BYTES_PER_LINE) {
+    const chunk = bytes.subarray(offset, offset + BYTES_PER_LINE);
+    const groups: string[] = [];
+    for (let i = 0; i < chunk.length; i += 2) {
+      groups.push(Array.from(chunk.subarray(i, i + 2), byte => hex(byte, 2)).join(''));
+    }
+    lines.push(`${hex(offset, 8)}: ${groups.join(' ').padEnd(39)}  ${printable(chunk)}`);
+  }
+
+  return lines.join('\n');
+}
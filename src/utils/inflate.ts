@@ -0,0 +1,239 @@
+import { ArchiveError } from '../models/Archive';
+
+// Synchronous decoder for raw DEFLATE data (RFC 1951). The browser's
+// DecompressionStream only works asynchronously, which doesn't fit filesystem reads.
+
+// Base lengths and extra bits for length codes 257..285
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+
+// Base distances and extra bits for distance codes 0..29
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MAX_BITS = 15;
+
+// A canonical Huffman code: how many codes there are of each length, and the symbols
+// in code order
+interface HuffmanCode {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+// Build a Huffman code from the code length of each symbol (0 for unused symbols)
+function buildCode(lengths: ArrayLike<number>): HuffmanCode {
+  const counts = new Uint16Array(MAX_BITS + 1);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]]++;
+  }
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MAX_BITS + 1);
+  for (let length = 1; length < MAX_BITS; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) {
+      symbols[offsets[lengths[i]]++] = i;
+    }
+  }
+  return { counts, symbols };
+}
+
+// The fixed codes used by block type 1
+const FIXED_LITERAL_CODE = buildCode(Array.from({ length: 288 }, (_, i) => i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8));
+const FIXED_DISTANCE_CODE = buildCode(new Array(30).fill(5));
+
+// Reads a DEFLATE stream bit by bit, least significant bit first, into a growing buffer
+class Inflater {
+  private input: Uint8Array;
+  private position = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+  private output: Uint8Array;
+  private length = 0;
+
+  constructor(input: Uint8Array, expectedSize: number) {
+    this.input = input;
+    this.output = new Uint8Array(Math.max(expectedSize, 1024));
+  }
+
+  // Throw for a stream that doesn't decode
+  private corrupt(): never {
+    throw new ArchiveError('invalid compressed data');
+  }
+
+  // Read a number of bits (up to 16)
+  private bits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.position >= this.input.length) {
+        this.corrupt();
+      }
+      this.bitBuffer |= this.input[this.position++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  // Read one symbol, walking the code a bit at a time
+  private decode(code: HuffmanCode): number {
+    let value = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MAX_BITS; length++) {
+      value |= this.bits(1);
+      const count = code.counts[length];
+      if (value - first < count) {
+        return code.symbols[index + value - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      value <<= 1;
+    }
+    return this.corrupt();
+  }
+
+  // Make room for more output
+  private reserve(count: number): void {
+    if (this.length + count > this.output.length) {
+      const grown = new Uint8Array(Math.max(this.output.length * 2, this.length + count));
+      grown.set(this.output.subarray(0, this.length));
+      this.output = grown;
+    }
+  }
+
+  // Block type 0: bytes copied as they are
+  private storedBlock(): void {
+    this.bitBuffer = 0; // The length starts on the next byte boundary
+    this.bitCount = 0;
+    if (this.position + 4 > this.input.length) {
+      this.corrupt();
+    }
+    const size = this.input[this.position] | (this.input[this.position + 1] << 8);
+    const check = this.input[this.position + 2] | (this.input[this.position + 3] << 8);
+    this.position += 4;
+    if (size !== (~check & 0xffff) || this.position + size > this.input.length) {
+      this.corrupt();
+    }
+
+    this.reserve(size);
+    this.output.set(this.input.subarray(this.position, this.position + size), this.length);
+    this.length += size;
+    this.position += size;
+  }
+
+  // Block type 2: read the codes the block was compressed with
+  private dynamicCodes(): [HuffmanCode, HuffmanCode] {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    }
+    const codeLengthCode = buildCode(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.decode(codeLengthCode);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) this.corrupt();
+        value = lengths[i - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (i + repeat > lengths.length) {
+        this.corrupt();
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [buildCode(lengths.subarray(0, literalCount)), buildCode(lengths.subarray(literalCount))];
+  }
+
+  // Decode literals and back-references until the end of block symbol
+  private compressedBlock(literalCode: HuffmanCode, distanceCode: HuffmanCode): void {
+    for (;;) {
+      const symbol = this.decode(literalCode);
+      if (symbol < 256) {
+        this.reserve(1);
+        this.output[this.length++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        return;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        this.corrupt();
+      }
+      const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = this.decode(distanceCode);
+      if (distanceIndex >= DISTANCE_BASE.length) {
+        this.corrupt();
+      }
+      const distance = DISTANCE_BASE[distanceIndex] + this.bits(DISTANCE_EXTRA[distanceIndex]);
+      if (distance > this.length) {
+        this.corrupt();
+      }
+
+      // Byte by byte, since the copy may overlap what it produces
+      this.reserve(length);
+      for (let i = 0; i < length; i++) {
+        this.output[this.length] = this.output[this.length - distance];
+        this.length++;
+      }
+    }
+  }
+
+  // Decode every block
+  run(): Uint8Array {
+    let last;
+    do {
+      last = this.bits(1);
+      switch (this.bits(2)) {
+        case 0:
+          this.storedBlock();
+          break;
+        case 1:
+          this.compressedBlock(FIXED_LITERAL_CODE, FIXED_DISTANCE_CODE);
+          break;
+        case 2:
+          this.compressedBlock(...this.dynamicCodes());
+          break;
+        default:
+          this.corrupt();
+      }
+    } while (!last);
+
+    return this.output.length === this.length ? this.output : this.output.slice(0, this.length);
+  }
+}
+
+// Decompress raw DEFLATE data, as stored in zip archives. expectedSize, if known,
+// sizes the output buffer up front. Throws ArchiveError for corrupt data.
+export function inflateRaw(data: Uint8Array, expectedSize: number = 0): Uint8Array {
+  return new Inflater(data, expectedSize).run();
+}
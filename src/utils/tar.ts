@@ -0,0 +1,276 @@
+import { ArchiveEntry, ArchiveEntryType, ArchiveError } from '../models/Archive';
+import { decodeText, encodeText } from '../models/FileContent';
+
+const BLOCK_SIZE = 512;
+const RECORD_SIZE = 20 * BLOCK_SIZE; // Archives are padded to GNU tar's default blocking factor
+
+// Header fields of a POSIX ustar archive: [offset, length]
+const FIELDS = {
+  name: [0, 100],
+  mode: [100, 8],
+  uid: [108, 8],
+  gid: [116, 8],
+  size: [124, 12],
+  mtime: [136, 12],
+  checksum: [148, 8],
+  typeflag: [156, 1],
+  linkname: [157, 100],
+  magic: [257, 6],
+  version: [263, 2],
+  uname: [265, 32],
+  gname: [297, 32],
+  prefix: [345, 155]
+} as const;
+
+type Field = keyof typeof FIELDS;
+
+// Type flag written for each kind of entry
+const TYPE_FLAGS: Record<ArchiveEntryType, string> = {
+  file: '0',
+  hardlink: '1',
+  symlink: '2',
+  directory: '5'
+};
+
+// Entry kind for each type flag that can be extracted. Contiguous files ('7') and
+// files from pre-POSIX archives (NUL) are ordinary files.
+const ENTRY_TYPES: Record<string, ArchiveEntryType> = {
+  '0': 'file',
+  '\0': 'file',
+  '7': 'file',
+  '1': 'hardlink',
+  '2': 'symlink',
+  '5': 'directory'
+};
+
+// Bytes needed to pad data out to whole blocks
+const paddedSize = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+// Store text in a field; it may fill the field without a terminating NUL
+function writeText(header: Uint8Array, field: Field, text: string): void {
+  const [offset, length] = FIELDS[field];
+  header.set(encodeText(text).subarray(0, length), offset);
+}
+
+// Store a number as zero-padded octal followed by NUL
+function writeOctal(header: Uint8Array, field: Field, value: number): void {
+  const [, length] = FIELDS[field];
+  const digits = Math.floor(value).toString(8);
+  if (digits.length > length - 1) {
+    throw new ArchiveError(`${field} ${value} is too large for a tar header`);
+  }
+  writeText(header, field, `${digits.padStart(length - 1, '0')}\0`);
+}
+
+// Read a NUL-terminated text field
+function readText(header: Uint8Array, field: Field): string {
+  const [offset, length] = FIELDS[field];
+  const bytes = header.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decodeText(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+// Read a numeric field: octal text, or GNU's base-256 form for values too large for it
+function readNumber(header: Uint8Array, field: Field): number {
+  const [offset, length] = FIELDS[field];
+  const bytes = header.subarray(offset, offset + length);
+  if (bytes[0] & 0x80) {
+    return bytes.subarray(1).reduce((value, byte) => value * 256 + byte, bytes[0] & 0x7f);
+  }
+  const text = readText(header, field).trim();
+  return text === '' ? 0 : parseInt(text, 8);
+}
+
+// Sum of the header bytes with the checksum field counted as spaces
+function computeChecksum(header: Uint8Array): number {
+  const [offset, length] = FIELDS.checksum;
+  let sum = 0;
+  header.forEach((byte, i) => {
+    sum += i >= offset && i < offset + length ? 0x20 : byte;
+  });
+  return sum;
+}
+
+// Split a long name into ustar's prefix and name fields at a '/', or return null if
+// it can't be done
+function splitName(name: string): { prefix: string, name: string } | null {
+  const bytes = encodeText(name);
+  if (bytes.length <= FIELDS.name[1]) {
+    return { prefix: '', name };
+  }
+  for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+    const prefix = name.substring(0, i);
+    const rest = name.substring(i + 1);
+    if (encodeText(prefix).length <= FIELDS.prefix[1] && rest !== '' && encodeText(rest).length <= FIELDS.name[1]) {
+      return { prefix, name: rest };
+    }
+  }
+  return null;
+}
+
+// Build one header block
+function createHeader(
+  entry: ArchiveEntry,
+  name: string,
+  prefix: string,
+  typeflag: string,
+  size: number
+): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeText(header, 'name', name);
+  writeOctal(header, 'mode', entry.mode & 0o7777);
+  writeOctal(header, 'uid', entry.uid);
+  writeOctal(header, 'gid', entry.gid);
+  writeOctal(header, 'size', size);
+  writeOctal(header, 'mtime', entry.mtime.getTime() / 1000);
+  writeText(header, 'typeflag', typeflag);
+  writeText(header, 'linkname', entry.linkname);
+  writeText(header, 'magic', 'ustar\0');
+  writeText(header, 'version', '00');
+  writeText(header, 'uname', entry.uname ?? '');
+  writeText(header, 'gname', entry.gname ?? '');
+  writeText(header, 'prefix', prefix);
+
+  const checksum = computeChecksum(header).toString(8).padStart(6, '0');
+  writeText(header, 'checksum', `${checksum}\0 `);
+  return header;
+}
+
+// A GNU long name ('L') or long link ('K') entry carrying text too long for a header
+function createLongText(entry: ArchiveEntry, typeflag: string, text: string): Uint8Array[] {
+  const data = encodeText(`${text}\0`);
+  const block = new Uint8Array(paddedSize(data.length));
+  block.set(data);
+  return [createHeader({ ...entry, linkname: '' }, '././@LongLink', '', typeflag, data.length), block];
+}
+
+// Write entries as a POSIX ustar archive. Names and link targets too long for ustar
+// are stored with GNU long name entries, which GNU and BSD tar both read.
+export function writeTar(entries: ArchiveEntry[]): Uint8Array {
+  const blocks: Uint8Array[] = [];
+
+  for (const entry of entries) {
+    const fullName = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+    const size = entry.type === 'file' ? entry.data.length : 0;
+
+    let split = splitName(fullName);
+    if (!split) {
+      blocks.push(...createLongText(entry, 'L', fullName));
+      split = { prefix: '', name: fullName };
+    }
+    let header = entry;
+    if (encodeText(entry.linkname).length > FIELDS.linkname[1]) {
+      blocks.push(...createLongText(entry, 'K', entry.linkname));
+      header = { ...entry, linkname: '' };
+    }
+
+    blocks.push(createHeader(header, split.name, split.prefix, TYPE_FLAGS[entry.type], size));
+    if (size > 0) {
+      const data = new Uint8Array(paddedSize(size));
+      data.set(entry.data);
+      blocks.push(data);
+    }
+  }
+
+  // Two zero blocks end the archive; the last record is padded out with zeros
+  const length = blocks.reduce((total, block) => total + block.length, 0) + 2 * BLOCK_SIZE;
+  const archive = new Uint8Array(Math.ceil(length / RECORD_SIZE) * RECORD_SIZE);
+  let offset = 0;
+  for (const block of blocks) {
+    archive.set(block, offset);
+    offset += block.length;
+  }
+  return archive;
+}
+
+// Parse the records of a pax extended header ("<length> <key>=<value>\n" each)
+function parsePaxHeader(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(decodeText(data.subarray(offset, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+
+    const record = decodeText(data.subarray(space + 1, offset + length)).replace(/\n$/, '');
+    const equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.substring(0, equals)] = record.substring(equals + 1);
+    }
+    offset += length;
+  }
+  return records;
+}
+
+// Read the entries of a ustar, GNU or pax archive. Entry kinds that can't be
+// extracted here, such as devices and FIFOs, are left out.
+export function readTar(bytes: Uint8Array): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+  let longLink: string | null = null;
+  let pax: Record<string, string> = {};
+
+  while (offset < bytes.length) {
+    if (offset + BLOCK_SIZE > bytes.length) {
+      throw new ArchiveError(offset === 0 ? 'This does not look like a tar archive' : 'Unexpected EOF in archive');
+    }
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break; // End of archive
+    }
+    if (readNumber(header, 'checksum') !== computeChecksum(header)) {
+      throw new ArchiveError(offset === 0 ? 'This does not look like a tar archive' : 'Damaged tar header');
+    }
+
+    const size = readNumber(header, 'size');
+    const dataStart = offset + BLOCK_SIZE;
+    if (dataStart + size > bytes.length) {
+      throw new ArchiveError('Unexpected EOF in archive');
+    }
+    const data = bytes.slice(dataStart, dataStart + size);
+    offset = dataStart + paddedSize(size);
+
+    const typeflag = String.fromCharCode(header[FIELDS.typeflag[0]]);
+    switch (typeflag) {
+      case 'L':
+        longName = decodeText(data).replace(/\0+$/, '');
+        continue;
+      case 'K':
+        longLink = decodeText(data).replace(/\0+$/, '');
+        continue;
+      case 'x':
+        pax = parsePaxHeader(data);
+        continue;
+      case 'g':
+        continue; // Global pax settings don't change anything we keep
+    }
+
+    const prefix = readText(header, 'prefix');
+    const headerName = prefix ? `${prefix}/${readText(header, 'name')}` : readText(header, 'name');
+    const name = pax.path ?? longName ?? headerName;
+    const linkname = pax.linkpath ?? longLink ?? readText(header, 'linkname');
+    const mtime = pax.mtime !== undefined ? parseFloat(pax.mtime) : readNumber(header, 'mtime');
+    longName = null;
+    longLink = null;
+    pax = {};
+
+    const type = ENTRY_TYPES[typeflag];
+    if (!type) continue;
+
+    entries.push({
+      name: name.replace(/\/+$/, ''),
+      type,
+      mode: readNumber(header, 'mode') & 0o7777,
+      uid: readNumber(header, 'uid'),
+      gid: readNumber(header, 'gid'),
+      uname: readText(header, 'uname'),
+      gname: readText(header, 'gname'),
+      mtime: new Date(mtime * 1000),
+      data: type === 'file' ? data : new Uint8Array(0),
+      linkname
+    });
+  }
+
+  return entries;
+}
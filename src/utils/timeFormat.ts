@@ -0,0 +1,67 @@
+// Timestamp formats understood by ls --time-style
+export type TimeStyle = 'locale' | 'iso' | 'long-iso' | 'full-iso';
+
+export const TIME_STYLES: TimeStyle[] = ['locale', 'iso', 'long-iso', 'full-iso'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const SIX_MONTHS_MS = 182 * 24 * 60 * 60 * 1000;
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+// Local timezone offset as +HHMM
+function formatZone(date: Date): string {
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return `${sign}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+}
+
+// Full timestamp as shown by stat, e.g. "2026-10-19 14:03:27.120000000 +0200"
+export function formatFullTimestamp(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  return `${day} ${time}.${pad(date.getMilliseconds(), 3)}000000 ${formatZone(date)}`;
+}
+
+// Format a timestamp for ls -l in the given style
+export function formatTimestamp(date: Date, style: TimeStyle = 'locale', now: Date = new Date()): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  const recent = Math.abs(now.getTime() - date.getTime()) < SIX_MONTHS_MS;
+
+  switch (style) {
+    case 'full-iso':
+      return formatFullTimestamp(date);
+    case 'long-iso':
+      return `${day} ${time}`;
+    case 'iso':
+      // Recent files get month, day and time; older ones the full date
+      return recent ? `${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${time}` : day;
+    default: {
+      const monthDay = `${MONTHS[date.getMonth()]} ${String(date.getDate()).padStart(2)}`;
+      return recent ? `${monthDay} ${time}` : `${monthDay}  ${date.getFullYear()}`;
+    }
+  }
+}
+
+// Parse a touch -t stamp: [[CC]YY]MMDDhhmm[.ss] in local time. Returns null if invalid.
+export function parseTouchStamp(stamp: string, now: Date = new Date()): Date | null {
+  const match = /^(\d{2}(?:\d{2})?)?(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d{2}))?$/.exec(stamp);
+  if (!match) {
+    return null;
+  }
+
+  const [, yearPart, month, day, hours, minutes, seconds] = match;
+  let year = now.getFullYear();
+  if (yearPart?.length === 4) {
+    year = Number(yearPart);
+  } else if (yearPart) {
+    // Two-digit years 69-99 are 1969-1999, 00-68 are 2000-2068
+    year = Number(yearPart) + (Number(yearPart) >= 69 ? 1900 : 2000);
+  }
+
+  const date = new Date(year, Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds ?? 0));
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) {
+    return null; // Out of range, e.g. February 30th
+  }
+  return date;
+}
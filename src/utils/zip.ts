@@ -0,0 +1,336 @@
+import { ArchiveEntry, ArchiveError } from '../models/Archive';
+import { decodeText, encodeText } from '../models/FileContent';
+import { deflateRaw } from './compression';
+import { inflateRaw } from './inflate';
+
+// Record signatures
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+export const METHOD_STORED = 0;
+export const METHOD_DEFLATED = 8;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_UTF8 = 0x0800; // Names are UTF-8 rather than code page 437
+
+const HOST_UNIX = 3;     // "Version made by" host whose external attributes hold a Unix mode
+const VERSION_MADE_BY = (HOST_UNIX << 8) | 30;
+const DOS_DIRECTORY = 0x10;
+
+// File type bits of a Unix mode, as kept in the external attributes
+const S_IFMT = 0o170000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+const S_IFLNK = 0o120000;
+
+// Extra field holding the modification time as Unix seconds, in UTC
+const EXTENDED_TIMESTAMP = 0x5455;
+
+// An entry as listed in an archive's central directory, before its data is read
+export interface ZipMember {
+  name: string; // Without a trailing slash
+  type: 'file' | 'directory' | 'symlink';
+  mode: number;
+  mtime: Date;
+  flags: number;
+  method: number; // METHOD_STORED or METHOD_DEFLATED; others can't be read
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  offset: number; // Position of the entry's local header
+}
+
+// CRC-32 lookup table for the zip polynomial
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+// CRC-32 of some bytes, as stored for every zip entry
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Convert an MS-DOS date and time (local time, two-second resolution)
+function fromDosTime(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  );
+}
+
+// Convert to an MS-DOS date and time; dates before 1980 can't be stored and become 1980
+function toDosTime(value: Date): { date: number, time: number } {
+  if (value.getFullYear() < 1980) {
+    return { date: (1 << 5) | 1, time: 0 };
+  }
+  return {
+    date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | (value.getSeconds() >> 1)
+  };
+}
+
+// Find the modification time in an extended timestamp extra field, if there is one
+function readExtendedTimestamp(view: DataView, start: number, end: number): Date | null {
+  for (let offset = start; offset + 4 <= end;) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    const flags = view.getUint8(offset + 4);
+    if (id === EXTENDED_TIMESTAMP && size >= 5 && flags & 1 && offset + 9 <= end) {
+      return new Date(view.getUint32(offset + 5, true) * 1000);
+    }
+    offset += 4 + size;
+  }
+  return null;
+}
+
+// Read the central directory: every entry's name, attributes and where its data is
+export function readZipDirectory(bytes: Uint8Array): ZipMember[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits at the very end, followed only by an optional comment
+  let end = -1;
+  const lowest = Math.max(0, bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= lowest; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new ArchiveError('End-of-central-directory signature not found');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) {
+    throw new ArchiveError('zip64 archives are not supported');
+  }
+
+  const members: ZipMember[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + CENTRAL_HEADER_SIZE > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new ArchiveError('bad central directory');
+    }
+    const madeBy = view.getUint16(offset + 4, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const attributes = view.getUint32(offset + 38, true);
+    const nameStart = offset + CENTRAL_HEADER_SIZE;
+    const extraStart = nameStart + nameLength;
+    const rawName = decodeText(bytes.subarray(nameStart, extraStart));
+
+    // Archives made on Unix carry a mode; elsewhere only a directory flag
+    const unixMode = (madeBy >> 8) === HOST_UNIX ? attributes >>> 16 : 0;
+    let type: ZipMember['type'];
+    if (unixMode !== 0) {
+      type = (unixMode & S_IFMT) === S_IFDIR ? 'directory' : (unixMode & S_IFMT) === S_IFLNK ? 'symlink' : 'file';
+    } else {
+      type = rawName.endsWith('/') || attributes & DOS_DIRECTORY ? 'directory' : 'file';
+    }
+    const defaultMode = type === 'directory' ? 0o755 : 0o644;
+
+    members.push({
+      name: rawName.replace(/\/+$/, ''),
+      type,
+      mode: unixMode !== 0 ? unixMode & 0o7777 : defaultMode,
+      mtime: readExtendedTimestamp(view, extraStart, extraStart + extraLength)
+        ?? fromDosTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+      flags: view.getUint16(offset + 8, true),
+      method: view.getUint16(offset + 10, true),
+      crc32: view.getUint32(offset + 16, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      offset: view.getUint32(offset + 42, true)
+    });
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return members;
+}
+
+// Read and decompress one entry's data, checking its CRC
+export function readZipMember(bytes: Uint8Array, member: ZipMember): Uint8Array {
+  if (member.flags & FLAG_ENCRYPTED) {
+    throw new ArchiveError(`${member.name}: encrypted entries are not supported`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (member.offset + LOCAL_HEADER_SIZE > bytes.length || view.getUint32(member.offset, true) !== LOCAL_HEADER) {
+    throw new ArchiveError(`${member.name}: bad local header`);
+  }
+
+  // The local header's name and extra field can differ in length from the central one's
+  const start = member.offset + LOCAL_HEADER_SIZE
+    + view.getUint16(member.offset + 26, true) + view.getUint16(member.offset + 28, true);
+  if (start + member.compressedSize > bytes.length) {
+    throw new ArchiveError(`${member.name}: unexpected end of archive`);
+  }
+  const stored = bytes.subarray(start, start + member.compressedSize);
+
+  let data;
+  switch (member.method) {
+    case METHOD_STORED:
+      data = stored.slice();
+      break;
+    case METHOD_DEFLATED:
+      try {
+        data = inflateRaw(stored, member.size);
+      } catch (error) {
+        throw error instanceof ArchiveError ? new ArchiveError(`${member.name}: ${error.message}`) : error;
+      }
+      break;
+    default:
+      throw new ArchiveError(`${member.name}: unsupported compression method ${member.method}`);
+  }
+  if (data.length !== member.size || crc32(data) !== member.crc32) {
+    throw new ArchiveError(`${member.name}: bad CRC`);
+  }
+  return data;
+}
+
+// Read one entry in full. Symbolic link targets are stored as the link's data. Zip
+// keeps no owner, so entries belong to root (whoever extracts them, unless that's root).
+export function readZipEntry(bytes: Uint8Array, member: ZipMember): ArchiveEntry {
+  const data = member.type === 'directory' ? new Uint8Array(0) : readZipMember(bytes, member);
+  return {
+    name: member.name,
+    type: member.type,
+    mode: member.mode,
+    uid: 0,
+    gid: 0,
+    mtime: member.mtime,
+    data: member.type === 'file' ? data : new Uint8Array(0),
+    linkname: member.type === 'symlink' ? decodeText(data) : ''
+  };
+}
+
+// Read every entry of an archive
+export function readZip(bytes: Uint8Array): ArchiveEntry[] {
+  return readZipDirectory(bytes).map(member => readZipEntry(bytes, member));
+}
+
+// An archive written by writeZip, with how each entry was stored
+export interface ZipArchive {
+  bytes: Uint8Array;
+  members: ZipMember[];
+}
+
+// Write entries as a zip archive, compressing each file that gets smaller for it.
+// Zip has no hard links, so they're stored as copies of the file they link to;
+// symbolic links are stored the way Info-ZIP does, with the target as their data.
+export async function writeZip(entries: ArchiveEntry[]): Promise<ZipArchive> {
+  const contents = new Map<string, Uint8Array>();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  const members: ZipMember[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const type = entry.type === 'hardlink' ? 'file' : entry.type;
+    const data = entry.type === 'hardlink' ? contents.get(entry.linkname) ?? new Uint8Array(0)
+      : entry.type === 'symlink' ? encodeText(entry.linkname)
+        : entry.data;
+    contents.set(entry.name, data);
+
+    const compressed = data.length > 0 ? await deflateRaw(data) : data;
+    const method = compressed.length < data.length ? METHOD_DEFLATED : METHOD_STORED;
+    const stored = method === METHOD_DEFLATED ? compressed : data;
+
+    const name = encodeText(type === 'directory' ? `${entry.name}/` : entry.name);
+    const flags = name.some(byte => byte >= 0x80) ? FLAG_UTF8 : 0;
+    const checksum = crc32(data);
+    const { date, time } = toDosTime(entry.mtime);
+    const typeBits = type === 'directory' ? S_IFDIR : type === 'symlink' ? S_IFLNK : S_IFREG;
+    const attributes = ((((typeBits | entry.mode) & 0xffff) << 16) | (type === 'directory' ? DOS_DIRECTORY : 0)) >>> 0;
+
+    const extra = new DataView(new ArrayBuffer(9));
+    extra.setUint16(0, EXTENDED_TIMESTAMP, true);
+    extra.setUint16(2, 5, true);
+    extra.setUint8(4, 1); // Modification time present
+    extra.setUint32(5, Math.max(0, Math.floor(entry.mtime.getTime() / 1000)), true);
+    const extraBytes = new Uint8Array(extra.buffer);
+
+    if (offset > 0xffffffff || stored.length > 0xffffffff) {
+      throw new ArchiveError('archive too large for zip without zip64');
+    }
+
+    const local = new DataView(new ArrayBuffer(LOCAL_HEADER_SIZE));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, flags, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, stored.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, extraBytes.length, true);
+
+    const central = new DataView(new ArrayBuffer(CENTRAL_HEADER_SIZE));
+    central.setUint32(0, CENTRAL_HEADER, true);
+    central.setUint16(4, VERSION_MADE_BY, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, flags, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, stored.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint16(30, extraBytes.length, true);
+    central.setUint32(38, attributes, true);
+    central.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, extraBytes, stored);
+    directory.push(new Uint8Array(central.buffer), name, extraBytes);
+    members.push({
+      name: entry.name,
+      type,
+      mode: entry.mode,
+      mtime: entry.mtime,
+      flags,
+      method,
+      crc32: checksum,
+      compressedSize: stored.length,
+      size: data.length,
+      offset
+    });
+    offset += LOCAL_HEADER_SIZE + name.length + extraBytes.length + stored.length;
+  }
+
+  if (members.length >= 0xffff) {
+    throw new ArchiveError('too many entries for zip without zip64');
+  }
+  const directorySize = directory.reduce((total, part) => total + part.length, 0);
+  const endRecord = new DataView(new ArrayBuffer(END_OF_CENTRAL_DIRECTORY_SIZE));
+  endRecord.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endRecord.setUint16(8, members.length, true);
+  endRecord.setUint16(10, members.length, true);
+  endRecord.setUint32(12, directorySize, true);
+  endRecord.setUint32(16, offset, true);
+
+  const bytes = new Uint8Array(offset + directorySize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  let position = 0;
+  for (const part of [...parts, ...directory, new Uint8Array(endRecord.buffer)]) {
+    bytes.set(part, position);
+    position += part.length;
+  }
+  return { bytes, members };
+}